@@ -0,0 +1,151 @@
+import { NocoDbApiError } from "./errors.js";
+
+// --- Group-By Aggregation ---
+// Computes grouped metrics over records that were paged in server-side, so an agent asking for
+// "total revenue per region" gets a small table back instead of every row. Results are returned as
+// a compact table: one header row of column names and one array of values per group.
+
+export type MetricOp = "count" | "sum" | "avg" | "min" | "max" | "countDistinct";
+
+export interface Metric {
+    op: MetricOp;
+    field?: string; // Required for everything but count (count without a field counts rows)
+    as?: string;    // Output column name, defaults to e.g. "sum_Revenue"
+}
+
+export interface HavingCondition {
+    column: string; // A metric alias or group-by column
+    op: "eq" | "neq" | "gt" | "ge" | "lt" | "le";
+    value: number | string;
+}
+
+export interface AggregateSort {
+    column: string; // A metric alias or group-by column
+    direction?: "asc" | "desc";
+}
+
+export interface AggregateTable {
+    columns: string[];
+    rows: unknown[][];
+}
+
+export function metricAlias(metric: Metric): string {
+    return metric.as ?? (metric.field ? `${metric.op}_${metric.field}` : metric.op);
+}
+
+interface Accumulator {
+    count: number;
+    sum: number;
+    numeric: number;
+    min?: unknown;
+    max?: unknown;
+    distinct?: Set<string>;
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === "";
+
+function toNumber(value: unknown): number | undefined {
+    if (typeof value === "number") return value;
+    if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+    return undefined;
+}
+
+// Numbers compare numerically; everything else (dates, text) as strings
+function compareValues(a: unknown, b: unknown): number {
+    if (isEmpty(a) || isEmpty(b)) return isEmpty(a) ? (isEmpty(b) ? 0 : -1) : 1;
+    const na = toNumber(a);
+    const nb = toNumber(b);
+    if (na !== undefined && nb !== undefined) return na - nb;
+    return String(a).localeCompare(String(b));
+}
+
+function accumulate(acc: Accumulator, metric: Metric, record: Record<string, unknown>) {
+    if (!metric.field) {
+        acc.count++;
+        return;
+    }
+    const value = record[metric.field];
+    if (isEmpty(value)) return;
+    acc.count++;
+    const number = toNumber(value);
+    if (number !== undefined) {
+        acc.sum += number;
+        acc.numeric++;
+    }
+    if (acc.min === undefined || compareValues(value, acc.min) < 0) acc.min = value;
+    if (acc.max === undefined || compareValues(value, acc.max) > 0) acc.max = value;
+    if (metric.op === "countDistinct") {
+        (acc.distinct ??= new Set()).add(typeof value === "object" ? JSON.stringify(value) : String(value));
+    }
+}
+
+function finish(acc: Accumulator, metric: Metric): unknown {
+    switch (metric.op) {
+        case "count": return acc.count;
+        case "sum": return acc.numeric > 0 ? acc.sum : null;
+        case "avg": return acc.numeric > 0 ? acc.sum / acc.numeric : null;
+        case "min": return acc.min ?? null;
+        case "max": return acc.max ?? null;
+        case "countDistinct": return acc.distinct?.size ?? 0;
+    }
+}
+
+function matchesHaving(value: unknown, condition: HavingCondition): boolean {
+    const comparison = compareValues(value, condition.value);
+    switch (condition.op) {
+        case "eq": return comparison === 0;
+        case "neq": return comparison !== 0;
+        case "gt": return comparison > 0;
+        case "ge": return comparison >= 0;
+        case "lt": return comparison < 0;
+        case "le": return comparison <= 0;
+    }
+}
+
+// Applies having, sort and limit to an already grouped table (shared by the server-side and local paths)
+export function shapeAggregateTable(table: AggregateTable, having: HavingCondition[] = [], sort: AggregateSort[] = [], limit?: number): AggregateTable {
+    const indexOf = (column: string) => {
+        const index = table.columns.indexOf(column);
+        if (index === -1) {
+            throw new NocoDbApiError("validation", `Unknown column '${column}' in having/sort. Use a group-by column or a metric alias: ${table.columns.join(", ")}`);
+        }
+        return index;
+    };
+    const havingIndexes = having.map(condition => ({ condition, index: indexOf(condition.column) }));
+    const sortIndexes = sort.map(s => ({ index: indexOf(s.column), sign: s.direction === "desc" ? -1 : 1 }));
+
+    let rows = table.rows.filter(row => havingIndexes.every(({ condition, index }) => matchesHaving(row[index], condition)));
+    if (sortIndexes.length > 0) {
+        rows = [...rows].sort((a, b) => {
+            for (const { index, sign } of sortIndexes) {
+                const comparison = compareValues(a[index], b[index]);
+                if (comparison !== 0) return comparison * sign;
+            }
+            return 0;
+        });
+    }
+    return { columns: table.columns, rows: limit !== undefined ? rows.slice(0, limit) : rows };
+}
+
+export function aggregateRecords(records: Record<string, unknown>[], groupBy: string[], metrics: Metric[]): AggregateTable {
+    const groups = new Map<string, { keys: unknown[]; accumulators: Accumulator[] }>();
+    for (const record of records) {
+        const keys = groupBy.map(column => record[column] ?? null);
+        const groupKey = JSON.stringify(keys);
+        let group = groups.get(groupKey);
+        if (!group) {
+            group = { keys, accumulators: metrics.map(() => ({ count: 0, sum: 0, numeric: 0 })) };
+            groups.set(groupKey, group);
+        }
+        metrics.forEach((metric, i) => accumulate(group!.accumulators[i], metric, record));
+    }
+    // Without group-by columns there is exactly one group, even over zero records
+    if (groupBy.length === 0 && groups.size === 0) {
+        groups.set("[]", { keys: [], accumulators: metrics.map(() => ({ count: 0, sum: 0, numeric: 0 })) });
+    }
+
+    return {
+        columns: [...groupBy, ...metrics.map(metricAlias)],
+        rows: [...groups.values()].map(group => [...group.keys, ...metrics.map((metric, i) => finish(group.accumulators[i], metric))]),
+    };
+}
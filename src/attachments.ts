@@ -0,0 +1,179 @@
+import fs from "fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { AttachmentDir, MaxAttachmentBytes } from "./config.js";
+import { NocoDbApiError } from "./errors.js";
+
+// --- Attachment Sources ---
+// A file to upload can come from the client (inline base64 or an MCP embedded-resource blob), from a
+// remote URL that NocoDB fetches itself, or from a path on this server. Paths are confined to
+// NOCODB_ATTACHMENT_DIR so a tool call cannot read arbitrary files.
+
+export const attachmentSourceShape = {
+    base64: z.string().optional().describe("File content as base64 (a data: URL is accepted too)."),
+    resource: z.object({
+        uri: z.string(),
+        mimeType: z.string().optional(),
+        blob: z.string().optional().describe("Base64 content."),
+        text: z.string().optional(),
+    }).optional().describe("An MCP embedded resource ({uri, mimeType, blob} or {uri, mimeType, text})."),
+    url: z.string().url().optional().describe("Public http(s) URL that NocoDB downloads the file from."),
+    filePathOnServer: z.string().optional().describe("Path of a file inside the server's attachment directory (NOCODB_ATTACHMENT_DIR)."),
+    fileName: z.string().optional().describe("File name to store; defaults to the name in the URL, path or resource URI."),
+    mimeType: z.string().optional().describe("MIME type, e.g. 'application/pdf'; guessed from the file name when omitted."),
+};
+
+export interface AttachmentSource {
+    base64?: string;
+    resource?: { uri: string; mimeType?: string; blob?: string; text?: string };
+    url?: string;
+    filePathOnServer?: string;
+    fileName?: string;
+    mimeType?: string;
+}
+
+// Content read from the client or the sandbox, ready for a multipart upload
+export interface AttachmentFile {
+    content: Buffer;
+    fileName: string;
+    mimeType: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+    ".png": "image/png", ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".gif": "image/gif", ".webp": "image/webp",
+    ".svg": "image/svg+xml", ".pdf": "application/pdf", ".csv": "text/csv", ".txt": "text/plain", ".md": "text/markdown",
+    ".json": "application/json", ".xml": "application/xml", ".html": "text/html", ".zip": "application/zip",
+    ".doc": "application/msword", ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ".xls": "application/vnd.ms-excel", ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function guessMimeType(fileName: string): string {
+    return MIME_TYPES[path.extname(fileName).toLowerCase()] ?? "application/octet-stream";
+}
+
+// Last path segment of a URL or URI, if it looks like a file name
+export function fileNameFromUri(uri: string): string | undefined {
+    try {
+        const name = decodeURIComponent(new URL(uri).pathname.split("/").pop() || "");
+        return name || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export function checkAttachmentSize(bytes: number, what: string) {
+    if (bytes > MaxAttachmentBytes) {
+        throw new NocoDbApiError("validation", `${what} is ${bytes} bytes, over the ${MaxAttachmentBytes}-byte limit (NOCODB_MAX_ATTACHMENT_BYTES).`);
+    }
+}
+
+// Exactly one of base64, resource, url and filePathOnServer must be given
+export function attachmentSourceKind(source: AttachmentSource): "base64" | "resource" | "url" | "filePathOnServer" {
+    const given = (["base64", "resource", "url", "filePathOnServer"] as const).filter(key => source[key] !== undefined);
+    if (given.length !== 1) {
+        throw new NocoDbApiError("validation", `Pass exactly one of 'base64', 'resource', 'url' or 'filePathOnServer' (got ${given.length === 0 ? "none" : given.join(", ")}).`);
+    }
+    return given[0];
+}
+
+function decodeBase64(data: string): { content: Buffer; mimeType?: string } {
+    const dataUrl = data.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,([\s\S]*)$/);
+    const payload = (dataUrl ? dataUrl[2] : data).replace(/\s+/g, "");
+    if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(payload)) {
+        throw new NocoDbApiError("validation", "Attachment content is not valid base64.");
+    }
+    checkAttachmentSize(Math.floor(payload.length * 3 / 4), "Attachment");
+    return { content: Buffer.from(payload, "base64"), mimeType: dataUrl?.[1] };
+}
+
+// Resolves a path inside the attachment directory, following symlinks, and rejects anything outside it
+export async function resolveSandboxedPath(filePath: string): Promise<string> {
+    if (!AttachmentDir) {
+        throw new NocoDbApiError("validation", "Reading files from the server is disabled. Set NOCODB_ATTACHMENT_DIR, or send the file as 'base64', 'resource' or 'url'.");
+    }
+    const root = await fs.realpath(AttachmentDir);
+    let resolved: string;
+    try {
+        resolved = await fs.realpath(path.resolve(root, filePath));
+    } catch {
+        throw new NocoDbApiError("not_found", `File '${filePath}' not found in the attachment directory.`);
+    }
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+        throw new NocoDbApiError("validation", `File '${filePath}' is outside the attachment directory.`);
+    }
+    return resolved;
+}
+
+// Loads a client- or server-side source; 'url' sources are fetched by NocoDB and never read here
+export async function readAttachmentSource(source: AttachmentSource): Promise<AttachmentFile> {
+    const kind = attachmentSourceKind(source);
+    let content: Buffer;
+    let detectedMimeType: string | undefined;
+    let defaultName: string | undefined;
+
+    if (kind === "base64") {
+        ({ content, mimeType: detectedMimeType } = decodeBase64(source.base64!));
+    } else if (kind === "resource") {
+        const resource = source.resource!;
+        if (resource.blob !== undefined) {
+            content = decodeBase64(resource.blob).content;
+        } else if (resource.text !== undefined) {
+            content = Buffer.from(resource.text, "utf8");
+            checkAttachmentSize(content.length, "Attachment");
+        } else {
+            throw new NocoDbApiError("validation", "Embedded resource has neither 'blob' nor 'text'.");
+        }
+        detectedMimeType = resource.mimeType;
+        defaultName = fileNameFromUri(resource.uri);
+    } else if (kind === "filePathOnServer") {
+        const filePath = await resolveSandboxedPath(source.filePathOnServer!);
+        const stat = await fs.stat(filePath);
+        if (!stat.isFile()) {
+            throw new NocoDbApiError("validation", `'${source.filePathOnServer}' is not a file.`);
+        }
+        checkAttachmentSize(stat.size, `File '${source.filePathOnServer}'`);
+        content = await fs.readFile(filePath);
+        defaultName = path.basename(filePath);
+    } else {
+        throw new NocoDbApiError("validation", "URL attachments are uploaded by NocoDB and cannot be read locally.");
+    }
+
+    const fileName = source.fileName ?? defaultName;
+    if (!fileName) {
+        throw new NocoDbApiError("validation", "'fileName' is required for this attachment source.");
+    }
+    return { content, fileName, mimeType: source.mimeType ?? detectedMimeType ?? guessMimeType(fileName) };
+}
+
+// --- Reading Attachments Back ---
+// Downloaded files become MCP content the model can use directly: images as image content, text
+// formats (CSV, JSON, ...) as text resources and anything else (PDF, Office files) as a base64 blob.
+
+const INLINE_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+const TEXT_TYPES = new Set(["application/json", "application/xml", "application/csv", "image/svg+xml"]);
+
+export interface DownloadedAttachment {
+    index: number;
+    title: string;
+    mimeType: string;
+    size: number;
+    content: Buffer;
+}
+
+export function isTextMimeType(mimeType: string): boolean {
+    return mimeType.startsWith("text/") || TEXT_TYPES.has(mimeType) || mimeType.endsWith("+json");
+}
+
+export function toAttachmentContent(file: DownloadedAttachment, uri: string): CallToolResult["content"] {
+    const summary = { index: file.index, title: file.title, mimeType: file.mimeType, size: file.size };
+    const content: CallToolResult["content"] = [{ type: "text", text: JSON.stringify(summary) }];
+    if (INLINE_IMAGE_TYPES.has(file.mimeType)) {
+        content.push({ type: "image", data: file.content.toString("base64"), mimeType: file.mimeType });
+    } else if (isTextMimeType(file.mimeType)) {
+        content.push({ type: "resource", resource: { uri, mimeType: file.mimeType, text: file.content.toString("utf8") } });
+    } else {
+        content.push({ type: "resource", resource: { uri, mimeType: file.mimeType, blob: file.content.toString("base64") } });
+    }
+    return content;
+}
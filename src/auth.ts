@@ -0,0 +1,296 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { createHmac, createHash, timingSafeEqual } from "node:crypto";
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from "jose";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+// --- Inbound Authentication for the HTTP endpoints ---
+// Each authenticator either accepts a bearer token (returning AuthInfo), passes on it (undefined)
+// so the next authenticator can try, or rejects it outright by throwing an AuthError.
+
+export class AuthError extends Error {
+    constructor(
+        message: string,
+        public readonly status: 401 | 403 = 401,
+        public readonly errorCode: "invalid_token" | "insufficient_scope" = "invalid_token",
+    ) {
+        super(message);
+        this.name = "AuthError";
+    }
+}
+
+export interface InboundAuthenticator {
+    name: string;
+    authenticate(token: string): Promise<AuthInfo | undefined>;
+}
+
+// --- Static API Keys ---
+// MCP_API_KEYS="alice:key1,bob:key2" (the "name:" prefix is optional and becomes the clientId)
+export function createStaticKeyAuthenticator(keys: { name: string; key: string }[]): InboundAuthenticator {
+    // Compare digests so timingSafeEqual always sees equal-length buffers
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    const keyDigests = keys.map(k => ({ name: k.name, digest: digest(k.key) }));
+
+    return {
+        name: "static-key",
+        async authenticate(token: string) {
+            const tokenDigest = digest(token);
+            const match = keyDigests.find(k => timingSafeEqual(k.digest, tokenDigest));
+            if (!match) return undefined;
+            return { token, clientId: match.name, scopes: [] };
+        }
+    };
+}
+
+// --- HMAC-Signed Keys ---
+// Token format: nchmac.<keyId>.<expiresAt>.<signature>
+// where signature = base64url(HMAC-SHA256(secret, "<keyId>.<expiresAt>")) and expiresAt is a unix
+// timestamp in seconds (0 = never expires). Keys can be minted without touching server config.
+const HMAC_KEY_PREFIX = "nchmac";
+
+function hmacSignature(secret: string, keyId: string, expiresAt: number): string {
+    return createHmac("sha256", secret).update(`${keyId}.${expiresAt}`).digest("base64url");
+}
+
+export function signHmacApiKey(keyId: string, expiresAt: number, secret: string): string {
+    if (keyId.includes(".")) {
+        throw new Error("HMAC key IDs must not contain '.'");
+    }
+    return `${HMAC_KEY_PREFIX}.${keyId}.${expiresAt}.${hmacSignature(secret, keyId, expiresAt)}`;
+}
+
+export function createHmacKeyAuthenticator(secret: string): InboundAuthenticator {
+    return {
+        name: "hmac-key",
+        async authenticate(token: string) {
+            const parts = token.split(".");
+            if (parts.length !== 4 || parts[0] !== HMAC_KEY_PREFIX) return undefined;
+
+            const [, keyId, expiresAtRaw, signature] = parts;
+            const expiresAt = parseInt(expiresAtRaw, 10);
+            if (isNaN(expiresAt)) {
+                throw new AuthError("Malformed HMAC key.");
+            }
+            const expected = Buffer.from(hmacSignature(secret, keyId, expiresAt));
+            const provided = Buffer.from(signature);
+            if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+                throw new AuthError("Invalid HMAC key signature.");
+            }
+            if (expiresAt !== 0 && expiresAt < Math.floor(Date.now() / 1000)) {
+                throw new AuthError("HMAC key has expired.");
+            }
+            return { token, clientId: keyId, scopes: [], expiresAt: expiresAt || undefined };
+        }
+    };
+}
+
+// --- OAuth 2.1 Bearer Tokens (MCP authorization spec) ---
+// JWT access tokens are validated against the authorization server's JWKS, issuer and audience.
+export interface OAuthConfig {
+    jwksUrl: string;
+    issuer?: string;
+    audience?: string;
+    requiredScopes: string[];
+}
+
+export function createOAuthAuthenticator(config: OAuthConfig): InboundAuthenticator {
+    const jwks = createRemoteJWKSet(new URL(config.jwksUrl));
+
+    return {
+        name: "oauth",
+        async authenticate(token: string) {
+            // Only JWTs (three dot-separated segments) are handled here
+            if (token.split(".").length !== 3) return undefined;
+
+            let payload: JWTPayload;
+            try {
+                ({ payload } = await jwtVerify(token, jwks, {
+                    issuer: config.issuer,
+                    audience: config.audience,
+                }));
+            } catch (error: any) {
+                throw new AuthError(`Invalid access token: ${error.message}`);
+            }
+
+            const scopes = readScopes(payload);
+            const missingScopes = config.requiredScopes.filter(scope => !scopes.includes(scope));
+            if (missingScopes.length > 0) {
+                throw new AuthError(`Access token is missing required scope(s): ${missingScopes.join(" ")}`, 403, "insufficient_scope");
+            }
+
+            return {
+                token,
+                clientId: String(payload.client_id ?? payload.azp ?? payload.sub ?? "unknown"),
+                scopes,
+                expiresAt: payload.exp,
+                extra: { subject: payload.sub, issuer: payload.iss },
+            };
+        }
+    };
+}
+
+// Scopes are conventionally a space-separated "scope" claim, but some providers use an "scp" array
+function readScopes(payload: JWTPayload): string[] {
+    if (typeof payload.scope === "string") return payload.scope.split(" ").filter(Boolean);
+    if (Array.isArray(payload.scp)) return payload.scp.map(String);
+    return [];
+}
+
+// --- Configuration ---
+
+export interface AuthSettings {
+    authenticators: InboundAuthenticator[];
+    oauth?: OAuthConfig & { resource?: string; authorizationServers: string[] };
+}
+
+const splitList = (value: string | undefined) => (value || "").split(",").map(v => v.trim()).filter(Boolean);
+
+export function loadAuthSettingsFromEnv(): AuthSettings {
+    const authenticators: InboundAuthenticator[] = [];
+
+    const apiKeys = splitList(process.env.MCP_API_KEYS).map((entry, index) => {
+        const separator = entry.indexOf(":");
+        return separator > 0
+            ? { name: entry.slice(0, separator), key: entry.slice(separator + 1) }
+            : { name: `api-key-${index + 1}`, key: entry };
+    });
+    if (apiKeys.length > 0) {
+        authenticators.push(createStaticKeyAuthenticator(apiKeys));
+        console.log(`[Auth] Static API keys enabled (${apiKeys.length} key(s)).`);
+    }
+
+    if (process.env.MCP_HMAC_SECRET) {
+        authenticators.push(createHmacKeyAuthenticator(process.env.MCP_HMAC_SECRET));
+        console.log("[Auth] HMAC-signed API keys enabled.");
+    }
+
+    let oauth: AuthSettings["oauth"];
+    if (process.env.MCP_OAUTH_JWKS_URL) {
+        oauth = {
+            jwksUrl: process.env.MCP_OAUTH_JWKS_URL,
+            issuer: process.env.MCP_OAUTH_ISSUER,
+            // Per the MCP spec tokens must be issued for this server, so the audience defaults to the resource identifier
+            audience: process.env.MCP_OAUTH_AUDIENCE || process.env.MCP_OAUTH_RESOURCE,
+            requiredScopes: splitList(process.env.MCP_OAUTH_REQUIRED_SCOPES),
+            resource: process.env.MCP_OAUTH_RESOURCE,
+            authorizationServers: splitList(process.env.MCP_OAUTH_AUTHORIZATION_SERVERS || process.env.MCP_OAUTH_ISSUER),
+        };
+        authenticators.push(createOAuthAuthenticator(oauth));
+        console.log(`[Auth] OAuth bearer validation enabled (JWKS: ${oauth.jwksUrl}).`);
+    }
+
+    if (authenticators.length === 0) {
+        console.warn("[Auth] WARNING: No inbound authentication configured. The HTTP endpoints are open to anyone who can reach them.");
+    }
+
+    return { authenticators, oauth };
+}
+
+// --- Express Integration ---
+
+export const PROTECTED_RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+function resourceIdentifier(req: Request, settings: AuthSettings): string {
+    return settings.oauth?.resource || `${req.protocol}://${req.get("host")}/mcp`;
+}
+
+// RFC 9728 metadata so MCP clients can discover which authorization server issues tokens for this server
+export function protectedResourceMetadataHandler(settings: AuthSettings): RequestHandler {
+    return (req: Request, res: Response) => {
+        if (!settings.oauth) {
+            res.status(404).json({ error: "OAuth is not enabled on this server." });
+            return;
+        }
+        res.json({
+            resource: resourceIdentifier(req, settings),
+            authorization_servers: settings.oauth.authorizationServers,
+            scopes_supported: settings.oauth.requiredScopes.length > 0 ? settings.oauth.requiredScopes : undefined,
+            bearer_methods_supported: ["header"],
+        });
+    };
+}
+
+type AuthenticatedRequest = Request & { auth?: AuthInfo; principal?: string };
+
+// Who sent a request, as "<authenticator>:<id>" (undefined when no authentication is configured).
+// MCP sessions are bound to the principal that opened them; an OAuth subject stays the same when its token is refreshed.
+export function requestPrincipal(req: Request): string | undefined {
+    return (req as AuthenticatedRequest).principal;
+}
+
+// Rejects requests without a valid bearer token; on success the AuthInfo is attached as req.auth,
+// which the MCP transports forward to tool handlers as extra.authInfo
+export function createAuthMiddleware(settings: AuthSettings): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (settings.authenticators.length === 0) {
+            next();
+            return;
+        }
+
+        const sendChallenge = (status: number, errorCode: string | undefined, description: string) => {
+            const params = ['realm="nocodb-mcp"'];
+            if (settings.oauth) {
+                params.push(`resource_metadata="${req.protocol}://${req.get("host")}${PROTECTED_RESOURCE_METADATA_PATH}"`);
+            }
+            if (errorCode) {
+                params.push(`error="${errorCode}"`, `error_description="${description.replace(/"/g, "'")}"`);
+            }
+            res.setHeader("WWW-Authenticate", `Bearer ${params.join(", ")}`);
+            res.status(status).json({ error: errorCode ?? "unauthorized", error_description: description });
+        };
+
+        const header = req.headers.authorization || "";
+        const match = header.match(/^Bearer\s+(.+)$/i);
+        if (!match) {
+            console.warn(`[Auth] Rejected ${req.method} ${req.path}: missing bearer token.`);
+            sendChallenge(401, undefined, "Missing bearer token.");
+            return;
+        }
+        const token = match[1].trim();
+
+        try {
+            for (const authenticator of settings.authenticators) {
+                const authInfo = await authenticator.authenticate(token);
+                if (authInfo) {
+                    (req as AuthenticatedRequest).auth = authInfo;
+                    (req as AuthenticatedRequest).principal = [authenticator.name, authInfo.extra?.issuer, authInfo.extra?.subject ?? authInfo.clientId]
+                        .filter(part => part !== undefined).join(":");
+                    next();
+                    return;
+                }
+            }
+            console.warn(`[Auth] Rejected ${req.method} ${req.path}: token not recognised.`);
+            sendChallenge(401, "invalid_token", "Token not recognised.");
+        } catch (error: any) {
+            if (error instanceof AuthError) {
+                console.warn(`[Auth] Rejected ${req.method} ${req.path}: ${error.message}`);
+                sendChallenge(error.status, error.errorCode, error.message);
+                return;
+            }
+            console.error(`[Auth] Error while authenticating ${req.method} ${req.path}:`, error);
+            res.status(500).json({ error: "server_error", error_description: "Authentication failed unexpectedly." });
+        }
+    };
+}
+
+// --- CORS Origin Allowlist ---
+// MCP_CORS_ORIGINS="https://app.example.com,https://admin.example.com" ("*" or unset allows every origin)
+export function loadCorsOriginsFromEnv(): string[] | "*" {
+    const origins = splitList(process.env.MCP_CORS_ORIGINS);
+    if (origins.length === 0 || origins.includes("*")) return "*";
+    console.log(`[Auth] CORS restricted to origins: ${origins.join(", ")}`);
+    return origins;
+}
+
+// Browsers enforce CORS, but requests from a disallowed Origin are still refused outright here so
+// that a malicious page (or DNS rebinding) cannot drive the server with simple requests
+export function createOriginGuard(allowedOrigins: string[] | "*"): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const origin = req.headers.origin;
+        if (allowedOrigins === "*" || !origin || allowedOrigins.includes(origin)) {
+            next();
+            return;
+        }
+        console.warn(`[Auth] Rejected ${req.method} ${req.path} from disallowed origin: ${origin}`);
+        res.status(403).json({ error: "forbidden", error_description: `Origin '${origin}' is not allowed.` });
+    };
+}
@@ -0,0 +1,122 @@
+import { createHash } from "node:crypto";
+import { PaginationPageSize, WatchPollIntervalMs } from "./config.js";
+import * as NocoDB from "./nocodbApi.js";
+import { toNocoDbError } from "./errors.js";
+import { NocoDbContext, runWithNocoDbContext } from "./nocodbContext.js";
+
+// --- Live Change Detection ---
+// Backs resources/subscribe: each watched table, filtered query or record is polled on an interval and
+// its listeners are told when the fingerprint of what they would read changes. Sessions watching the
+// same target on the same base with the same token share one poller; a different token may see
+// different rows, so it gets its own.
+
+export interface WatchTarget {
+    table: string;
+    where?: string;     // NocoDB filter, for a filtered query
+    recordId?: string;  // Watch a single record instead of the table
+}
+
+type ChangeListener = () => void;
+
+interface Watch {
+    context: NocoDbContext;
+    target: WatchTarget;
+    tableId: string; // Table ids are unique across bases, unlike titles
+    fingerprint: string;
+    listeners: Set<ChangeListener>;
+    timer?: NodeJS.Timeout;
+    polling: boolean;
+}
+
+const hash = (value: unknown) => createHash("sha1").update(JSON.stringify(value) ?? "").digest("hex");
+
+// Changes whenever a row the target covers is added, removed or modified
+async function fingerprint(target: WatchTarget): Promise<string> {
+    if (target.recordId !== undefined) {
+        try {
+            return hash(await NocoDB.getRecord(target.table, target.recordId));
+        } catch (error) {
+            if (toNocoDbError(error).code === "not_found") return "deleted";
+            throw error;
+        }
+    }
+
+    const { count } = await NocoDB.countRecords(target.table, target.where);
+    const columns: any[] = (await NocoDB.getTableMetadata(target.table)).columns || [];
+    const modified = columns.find(c => c.uidt === "LastModifiedTime");
+    if (modified) {
+        // The row count catches inserts and deletes, the newest modification time catches edits
+        const latest = await NocoDB.getRecords(target.table, target.where, 1, undefined, [{ field: modified.title, direction: "desc" }], [modified.title]);
+        return hash([count, latest.output.list?.[0]?.[modified.title]]);
+    }
+    // No UpdatedAt-style column to sort on: compare the first page instead
+    const page = await NocoDB.getRecords(target.table, target.where, PaginationPageSize);
+    return hash([count, page.output.list]);
+}
+
+export class ChangeWatcher {
+    private watches = new Map<string, Watch>();
+
+    constructor(private intervalMs: number) {
+    }
+
+    private key(context: NocoDbContext, target: WatchTarget): string {
+        // The token is hashed so it does not end up in log lines
+        const token = hash(String(context.client.defaults.headers["xc-token"] ?? "")).slice(0, 16);
+        return [context.url, context.baseId, token, target.table, target.recordId ?? "", target.where ?? ""].join("|");
+    }
+
+    private async poll(key: string, watch: Watch) {
+        if (watch.polling) return; // Previous poll still running (slow NocoDB)
+        watch.polling = true;
+        try {
+            const next = await runWithNocoDbContext(watch.context, () => fingerprint(watch.target));
+            if (next !== watch.fingerprint) {
+                watch.fingerprint = next;
+                console.log(`[ChangeWatcher] Change detected for ${key}, notifying ${watch.listeners.size} subscriber(s)`);
+                watch.listeners.forEach(listener => listener());
+            }
+        } catch (error: any) {
+            console.error(`[ChangeWatcher] Poll failed for ${key}: ${error.message}`);
+        } finally {
+            watch.polling = false;
+        }
+    }
+
+    // Polls every watch on a table right away, e.g. when a NocoDB webhook reports a change to it.
+    // Matched by id, so a table with the same title in another base is left alone.
+    checkTable(tableId: string) {
+        for (const [key, watch] of this.watches) {
+            if (watch.tableId === tableId) void this.poll(key, watch);
+        }
+    }
+
+    // Starts watching (or joins an existing watch) and returns a function that removes the listener.
+    // The first fingerprint is taken up front, so an unknown table or bad filter fails the subscribe call.
+    async subscribe(context: NocoDbContext, target: WatchTarget, listener: ChangeListener): Promise<() => void> {
+        const key = this.key(context, target);
+        if (!this.watches.has(key)) {
+            const [tableId, initial] = await runWithNocoDbContext(context, () => Promise.all([NocoDB.getTableId(target.table), fingerprint(target)]));
+            if (!this.watches.has(key)) {
+                const watch: Watch = { context, target, tableId, fingerprint: initial, listeners: new Set(), polling: false };
+                watch.timer = setInterval(() => this.poll(key, watch), this.intervalMs);
+                watch.timer.unref();
+                this.watches.set(key, watch);
+                console.log(`[ChangeWatcher] Watching ${key} every ${this.intervalMs}ms`);
+            }
+        }
+
+        const watch = this.watches.get(key)!;
+        watch.listeners.add(listener);
+        return () => {
+            watch.listeners.delete(listener);
+            if (watch.listeners.size === 0 && this.watches.get(key) === watch) {
+                clearInterval(watch.timer);
+                this.watches.delete(key);
+                console.log(`[ChangeWatcher] Stopped watching ${key}`);
+            }
+        };
+    }
+}
+
+export const changeWatcher = new ChangeWatcher(WatchPollIntervalMs);
@@ -0,0 +1,185 @@
+import { z } from "zod";
+
+// --- Column Definitions ---
+// Typed per-uidt options for creating and updating columns. Each member of the union carries the
+// settings that only make sense for its type (select choices, formula text, rollup function, currency
+// locale, ...); toColumnPayload turns a definition into the body NocoDB's column endpoints expect.
+
+// Types that take no options of their own
+export const SIMPLE_COLUMN_TYPES = [
+    "SingleLineText", "LongText", "Number", "Percent", "Duration", "Time", "Year", "Checkbox",
+    "Attachment", "Email", "PhoneNumber", "URL", "JSON", "GeoData", "Geometry", "Barcode", "QRCode",
+    "User", "Collaborator", "CreatedTime", "LastModifiedTime", "CreatedBy", "LastModifiedBy",
+    "AutoNumber", "SpecificDBType",
+] as const;
+
+const selectOptionSchema = z.object({
+    title: z.string().min(1).describe("Choice label."),
+    color: z.string().optional().describe("Hex color, e.g. '#cfdffe'."),
+});
+
+const ROLLUP_FUNCTIONS = ["count", "min", "max", "avg", "sum", "countDistinct", "sumDistinct", "avgDistinct"] as const;
+
+export const columnTypeSchema = z.discriminatedUnion("uidt", [
+    z.object({ uidt: z.enum(SIMPLE_COLUMN_TYPES) }),
+    z.object({
+        uidt: z.enum(["SingleSelect", "MultiSelect"]),
+        options: z.array(selectOptionSchema).describe("Allowed choices."),
+    }),
+    z.object({
+        uidt: z.literal("Formula"),
+        formula: z.string().min(1).describe("Formula text, e.g. 'CONCAT({First}, \" \", {Last})'."),
+    }),
+    z.object({
+        uidt: z.literal("Rollup"),
+        relationColumn: z.string().describe("Link column of this table to aggregate through."),
+        rollupColumn: z.string().describe("Column of the linked table to aggregate."),
+        rollupFunction: z.enum(ROLLUP_FUNCTIONS).describe("Aggregation applied to the linked values."),
+    }),
+    z.object({
+        uidt: z.literal("Lookup"),
+        relationColumn: z.string().describe("Link column of this table to look through."),
+        lookupColumn: z.string().describe("Column of the linked table to show."),
+    }),
+    z.object({
+        uidt: z.literal("Currency"),
+        locale: z.string().optional().describe("Display locale, e.g. 'fr-FR'."),
+        currencyCode: z.string().length(3).optional().describe("ISO 4217 code, e.g. 'EUR'."),
+        precision: z.number().int().min(0).max(8).optional().describe("Decimal places."),
+    }),
+    z.object({
+        uidt: z.literal("Decimal"),
+        precision: z.number().int().min(0).max(8).optional().describe("Decimal places."),
+    }),
+    z.object({
+        uidt: z.literal("Rating"),
+        max: z.number().int().min(1).max(10).optional().describe("Highest rating (default 5)."),
+    }),
+    z.object({
+        uidt: z.enum(["Date", "DateTime"]),
+        dateFormat: z.string().optional().describe("e.g. 'YYYY-MM-DD' or 'DD/MM/YYYY'."),
+        timeFormat: z.string().optional().describe("DateTime only, e.g. 'HH:mm'."),
+    }),
+    z.object({
+        uidt: z.enum(["LinkToAnotherRecord", "Links"]),
+        parentTableName: z.string().describe("Name of the table this column links TO."),
+        relationType: z.enum(["hm", "bt", "mm"]).describe("'hm' (HasMany), 'bt' (BelongsTo) or 'mm' (ManyToMany)."),
+    }),
+]);
+
+export type ColumnTypeDefinition = z.infer<typeof columnTypeSchema>;
+
+// Settings shared by every column type
+export const columnSettingsShape = {
+    description: z.string().optional().describe("Column description shown in the UI."),
+    defaultValue: z.union([z.string(), z.number(), z.boolean()]).nullable().optional().describe("Default value for new rows (null clears it)."),
+    required: z.boolean().optional().describe("Reject rows without a value."),
+    unique: z.boolean().optional().describe("Reject duplicate values."),
+};
+
+export interface ColumnSettings {
+    description?: string;
+    defaultValue?: string | number | boolean | null;
+    required?: boolean;
+    unique?: boolean;
+}
+
+// IDs that Rollup/Lookup/link columns need, resolved from titles by the caller
+export interface ResolvedColumnRefs {
+    tableId?: string;
+    parentId?: string;
+    relationColumnId?: string;
+    targetColumnId?: string; // Rollup or lookup column in the linked table
+}
+
+// Without a type only the shared settings are returned (for updates that keep the current type)
+export function toColumnPayload(type: ColumnTypeDefinition | undefined, settings: ColumnSettings, refs: ResolvedColumnRefs = {}): Record<string, unknown> {
+    const payload: Record<string, unknown> = type ? { uidt: type.uidt } : {};
+    const meta: Record<string, unknown> = {};
+
+    if (type) {
+        switch (type.uidt) {
+            case "SingleSelect":
+            case "MultiSelect":
+                payload.colOptions = { options: type.options.map((option, order) => ({ ...option, order: order + 1 })) };
+                payload.dtxp = type.options.map(option => `'${option.title.replace(/'/g, "''")}'`).join(",");
+                break;
+            case "Formula":
+                payload.formula_raw = type.formula;
+                payload.formula = type.formula;
+                break;
+            case "Rollup":
+                payload.fk_relation_column_id = refs.relationColumnId;
+                payload.fk_rollup_column_id = refs.targetColumnId;
+                payload.rollup_function = type.rollupFunction;
+                break;
+            case "Lookup":
+                payload.fk_relation_column_id = refs.relationColumnId;
+                payload.fk_lookup_column_id = refs.targetColumnId;
+                break;
+            case "Currency":
+                if (type.locale !== undefined) meta.currency_locale = type.locale;
+                if (type.currencyCode !== undefined) meta.currency_code = type.currencyCode;
+                if (type.precision !== undefined) meta.precision = type.precision;
+                break;
+            case "Decimal":
+                if (type.precision !== undefined) meta.precision = type.precision;
+                break;
+            case "Rating":
+                if (type.max !== undefined) meta.max = type.max;
+                break;
+            case "Date":
+            case "DateTime":
+                if (type.dateFormat !== undefined) meta.date_format = type.dateFormat;
+                if (type.timeFormat !== undefined) meta.time_format = type.timeFormat;
+                break;
+            case "LinkToAnotherRecord":
+            case "Links":
+                Object.assign(payload, {
+                    parentId: refs.parentId,
+                    childId: refs.tableId,
+                    fk_child_column_id: null,
+                    fk_parent_column_id: null,
+                    fk_mm_model_id: type.relationType === "mm" ? refs.parentId : null,
+                    fk_mm_child_column_id: null,
+                    fk_mm_parent_column_id: null,
+                    type: type.relationType,
+                });
+                break;
+        }
+    }
+
+    if (Object.keys(meta).length > 0) payload.meta = meta;
+    if (settings.description !== undefined) payload.description = settings.description;
+    if (settings.defaultValue !== undefined) payload.cdf = settings.defaultValue === null ? null : String(settings.defaultValue);
+    if (settings.required !== undefined) payload.rqd = settings.required;
+    if (settings.unique !== undefined) payload.unique = settings.unique;
+    return payload;
+}
+
+// colOptions keys that NocoDB keeps about the record itself or derives again on save
+const COL_OPTION_BOOKKEEPING = new Set(["id", "fk_column_id", "base_id", "project_id", "fk_workspace_id", "created_at", "updated_at", "parsed_tree", "error"]);
+
+// The type-specific settings of an existing column (select choices, formula text, rollup and lookup
+// targets, link columns, ...) as an update body. NocoDB rebuilds these from the request, so an update
+// that keeps the type has to send them again or they are dropped.
+export function existingTypeOptions(column: any): Record<string, unknown> {
+    const colOptions = column.colOptions || {};
+    if (column.uidt === "SingleSelect" || column.uidt === "MultiSelect") {
+        if (!colOptions.options) return {};
+        return {
+            colOptions: { options: colOptions.options.map((o: any) => ({ id: o.id, title: o.title, color: o.color, order: o.order })) },
+            dtxp: column.dtxp,
+        };
+    }
+    const options: Record<string, unknown> = Object.fromEntries(Object.entries(colOptions).filter(([key]) => !COL_OPTION_BOOKKEEPING.has(key)));
+    if (column.uidt === "Formula" && colOptions.formula_raw) {
+        // The stored 'formula' refers to columns by id; send the text the way toColumnPayload does
+        options.formula = colOptions.formula_raw;
+    }
+    if (column.uidt === "LinkToAnotherRecord" || column.uidt === "Links") {
+        // Same ids toColumnPayload sends when the link is created
+        Object.assign(options, { parentId: colOptions.fk_related_model_id, childId: column.fk_model_id });
+    }
+    return options;
+}
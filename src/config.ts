@@ -1,39 +1,177 @@
 import axios, { AxiosInstance } from "axios";
+import { serializeQueryParams } from "./queryParams.js";
+
+// --- Transport Selection ---
+// Flags (--transport=stdio or --transport stdio) are separated from the positional npx arguments below
+const cliArgs = process.argv.slice(2);
+const cliPositionalArgs: string[] = [];
+let transportFlag: string | undefined;
+for (let i = 0; i < cliArgs.length; i++) {
+    const arg = cliArgs[i];
+    if (arg === "--transport") {
+        // The value is the next argument, not a positional NOCODB_URL
+        transportFlag = cliArgs[++i];
+        if (transportFlag === undefined || transportFlag.startsWith("--")) {
+            console.error("Error: --transport needs a value, e.g. --transport stdio.");
+            process.exit(1);
+        }
+    } else if (arg.startsWith("--transport=")) {
+        transportFlag = arg.slice("--transport=".length);
+    } else if (!arg.startsWith("--")) {
+        cliPositionalArgs.push(arg);
+    }
+}
+
+export type McpTransportMode = "stdio" | "sse" | "both";
+const transportModes: McpTransportMode[] = ["stdio", "sse", "both"];
+
+const requestedTransport = (transportFlag || process.env.MCP_TRANSPORT || "sse").toLowerCase();
+
+if (!transportModes.includes(requestedTransport as McpTransportMode)) {
+    console.error(`Error: Unknown transport '${requestedTransport}'. Expected one of: ${transportModes.join(", ")}.`);
+    process.exit(1);
+}
+
+export const TransportMode = requestedTransport as McpTransportMode;
+
+// stdout carries the JSON-RPC stream in stdio mode, so route all diagnostic output to stderr.
+// This must run before anything else logs, which is why it lives at the top of the config module.
+if (TransportMode !== "sse") {
+    console.log = console.error;
+    console.info = console.error;
+    console.debug = console.error;
+    console.warn = console.error;
+}
 
 // --- Environment Variable Loading & Validation ---
 let { NOCODB_URL, NOCODB_BASE_ID, NOCODB_API_TOKEN } = process.env;
 
 if (!NOCODB_URL || !NOCODB_BASE_ID || !NOCODB_API_TOKEN) {
     // Check from npx param input as fallback
-    NOCODB_URL = process.argv[2] || NOCODB_URL;
-    NOCODB_BASE_ID = process.argv[3] || NOCODB_BASE_ID;
-    NOCODB_API_TOKEN = process.argv[4] || NOCODB_API_TOKEN;
+    NOCODB_URL = cliPositionalArgs[0] || NOCODB_URL;
+    NOCODB_BASE_ID = cliPositionalArgs[1] || NOCODB_BASE_ID;
+    NOCODB_API_TOKEN = cliPositionalArgs[2] || NOCODB_API_TOKEN;
 
-    if (!NOCODB_URL || !NOCODB_BASE_ID || !NOCODB_API_TOKEN) {
+    if (!NOCODB_URL) {
         console.error("Error: Missing required NocoDB configuration.");
-        console.error("Please provide NOCODB_URL, NOCODB_BASE_ID, and NOCODB_API_TOKEN via environment variables or command-line arguments.");
+        console.error("Please provide NOCODB_URL (and usually NOCODB_BASE_ID and NOCODB_API_TOKEN) via environment variables or command-line arguments.");
         process.exit(1); // Exit if configuration is missing
     }
+    if (!NOCODB_BASE_ID || !NOCODB_API_TOKEN) {
+        // Still usable: each MCP session can bring its own token/base ID or pick a named base (see NOCODB_BASES)
+        console.warn("[Config] No default NOCODB_BASE_ID/NOCODB_API_TOKEN configured. Sessions must supply their own credentials or select a named base.");
+    }
 }
 
 // Ensure URL doesn't have a trailing slash for consistency
 const cleanNocoDbUrl = NOCODB_URL.replace(/\/$/, "");
 
 // --- NocoDB Axios Client Initialization ---
-export const nocodbClient: AxiosInstance = axios.create({
-    baseURL: cleanNocoDbUrl,
-    headers: {
-        "xc-token": NOCODB_API_TOKEN,
-        "Content-Type": "application/json",
-    },
-    timeout: 30000, // 30 seconds timeout
-});
+export function createNocoDbClient(url: string, apiToken: string | undefined): AxiosInstance {
+    return axios.create({
+        baseURL: url.replace(/\/$/, ""),
+        headers: {
+            "xc-token": apiToken,
+            "Content-Type": "application/json",
+        },
+        timeout: 30000, // 30 seconds timeout
+        paramsSerializer: { serialize: serializeQueryParams },
+    });
+}
+
+export const nocodbClient: AxiosInstance = createNocoDbClient(cleanNocoDbUrl, NOCODB_API_TOKEN);
 
 // --- Export Configuration Values ---
 export const NocoDbUrl = cleanNocoDbUrl;
 export const NocoDbBaseId = NOCODB_BASE_ID;
 export const NocoDbApiToken = NOCODB_API_TOKEN; // Though used internally by client, might be useful elsewhere
 
+// --- Named Bases ---
+// NOCODB_BASES lets sessions and tools pick a base by name instead of by raw ID, e.g.
+// {"crm": "p_abc123", "ops": {"baseId": "p_def456", "apiToken": "...", "url": "https://other-nocodb.example.com"}}
+// Entries without their own url/apiToken fall back to NOCODB_URL/NOCODB_API_TOKEN.
+export interface NamedBaseConfig {
+    baseId: string;
+    url?: string;
+    apiToken?: string;
+    rateLimitPerSecond?: number; // Overrides NOCODB_RATE_LIMIT_RPS for this base
+}
+
+function parseNamedBases(raw: string | undefined): Record<string, NamedBaseConfig> {
+    if (!raw) return {};
+    try {
+        const parsed = JSON.parse(raw);
+        const bases: Record<string, NamedBaseConfig> = {};
+        for (const [name, value] of Object.entries(parsed)) {
+            const entry = typeof value === "string" ? { baseId: value } : value as NamedBaseConfig;
+            if (!entry || typeof entry.baseId !== "string") {
+                throw new Error(`entry '${name}' is missing a 'baseId'`);
+            }
+            bases[name] = entry;
+        }
+        return bases;
+    } catch (error: any) {
+        console.error(`Error: Invalid NOCODB_BASES configuration: ${error.message}`);
+        process.exit(1);
+    }
+}
+
+export const NamedBases = parseNamedBases(process.env.NOCODB_BASES);
+
+// Numeric settings fall back to their default when unset, not a number or below the minimum,
+// so a typo cannot become NaN (which would, e.g., never end the retry loop)
+export function numberFromEnv(name: string, fallback: number, min = 0, parse: (text: string) => number = text => parseInt(text, 10)): number {
+    const text = process.env[name];
+    if (text === undefined || text.trim() === "") return fallback;
+    const value = parse(text);
+    if (!Number.isFinite(value) || value < min) {
+        console.warn(`Warning: ${name}='${text}' is not a number >= ${min}; using ${fallback}.`);
+        return fallback;
+    }
+    return value;
+}
+
+// --- Retry and Rate Limiting ---
+// See resilience.ts. A rate limit of 0 disables client-side throttling.
+export const RetryOptions = {
+    maxRetries: numberFromEnv("NOCODB_MAX_RETRIES", 3),
+    baseDelayMs: numberFromEnv("NOCODB_RETRY_BASE_DELAY_MS", 500),
+    maxDelayMs: numberFromEnv("NOCODB_RETRY_MAX_DELAY_MS", 30000),
+};
+export const RateLimitPerSecond = numberFromEnv("NOCODB_RATE_LIMIT_RPS", 0, 0, parseFloat);
+export const RateLimitBurst = numberFromEnv("NOCODB_RATE_LIMIT_BURST", 0); // 0 = same as the rate
+
+// --- Pagination Limits ---
+// Hard ceilings for server-side pagination (nocodb-get-records with all/maxRecords); tool arguments can only lower them
+export const MaxRecordsHardCap = numberFromEnv("NOCODB_MAX_RECORDS", 10000, 1);
+export const MaxResponseBytes = numberFromEnv("NOCODB_MAX_RESPONSE_BYTES", 2000000, 1);
+export const PaginationPageSize = numberFromEnv("NOCODB_PAGE_SIZE", 100, 1);
+
+// --- Response Shaping ---
+// Defaults for trimming record tool responses (see responseShaping.ts); tool arguments can only lower the character cap
+export const MaxCellChars = numberFromEnv("NOCODB_MAX_CELL_CHARS", 1000);
+export const MaxResponseChars = numberFromEnv("NOCODB_MAX_RESPONSE_CHARS", 100000, 1);
+
+// --- Attachments ---
+// Server-side file paths are only readable inside this directory; unset disables path uploads (see attachments.ts)
+export const AttachmentDir = process.env.NOCODB_ATTACHMENT_DIR || undefined;
+// Largest file accepted for upload or read back from NocoDB
+export const MaxAttachmentBytes = numberFromEnv("NOCODB_MAX_ATTACHMENT_BYTES", 10485760, 1);
+// Hosts besides NOCODB_URL that attachment URLs may be downloaded from (e.g. an S3 bucket or CDN), comma-separated
+export const AttachmentHosts = (process.env.NOCODB_ATTACHMENT_HOSTS || "").split(",").map(host => host.trim().toLowerCase()).filter(Boolean);
+
+// --- Imports ---
+// Largest unpacked part of an XLSX file (worksheet, shared strings) that nocodb-import-data will inflate
+export const MaxXlsxEntryBytes = numberFromEnv("NOCODB_MAX_XLSX_ENTRY_BYTES", 104857600, 1);
+
+// --- Exports ---
+// nocodb-export-table can save files inside this directory; unset means exports are only returned as resources
+export const ExportDir = process.env.NOCODB_EXPORT_DIR || undefined;
+
+// --- Change Subscriptions ---
+// How often subscribed tables/records are polled for changes (see changeWatcher.ts)
+export const WatchPollIntervalMs = Math.max(1000, numberFromEnv("NOCODB_WATCH_INTERVAL_MS", 30000));
+
 // --- Filter Rules Constant ---
 // (Keeping this here as it's somewhat configuration-like, related to API usage)
 export const filterRules =
@@ -103,3 +241,5 @@ console.log(`[Config] NocoDB URL: ${NocoDbUrl}`);
 console.log(`[Config] NocoDB Base ID: ${NocoDbBaseId}`);
 // Avoid logging the token itself for security
 console.log(`[Config] NocoDB API Token: ${NocoDbApiToken ? 'Loaded' : 'Missing!'}`);
+console.log(`[Config] Named bases: ${Object.keys(NamedBases).length > 0 ? Object.keys(NamedBases).join(', ') : '(none)'}`);
+console.log(`[Config] MCP Transport: ${TransportMode}`);
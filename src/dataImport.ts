@@ -0,0 +1,180 @@
+import path from "node:path";
+import { NocoDbApiError } from "./errors.js";
+import { readXlsx } from "./xlsx.js";
+
+// --- Dataset Import ---
+// Parses CSV, JSON lines (or a JSON array) and XLSX into rows keyed by the header row, infers a column
+// type per header for tables that do not exist yet, and maps headers onto an existing table's columns.
+// The insert itself (batches, per-row errors, resume) lives in nocodbApi.importData.
+
+export type ImportFormat = "csv" | "jsonl" | "json" | "xlsx";
+
+export interface Dataset {
+    headers: string[];
+    rows: Record<string, unknown>[];
+    sheet?: string; // XLSX only: the sheet that was read
+}
+
+export function detectImportFormat(fileName?: string): ImportFormat | undefined {
+    switch (fileName ? path.extname(fileName).toLowerCase() : "") {
+        case ".csv": case ".tsv": case ".txt": return "csv";
+        case ".jsonl": case ".ndjson": return "jsonl";
+        case ".json": return "json";
+        case ".xlsx": return "xlsx";
+        default: return undefined;
+    }
+}
+
+// RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and line breaks
+export function parseCsv(text: string, delimiter?: string): string[][] {
+    text = text.replace(/^\uFEFF/, "");
+    // Without an explicit delimiter, use whichever of , ; or tab is most common on the first line
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const separator = delimiter ?? [",", ";", "\t"].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ",");
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === "\"" && text[i + 1] === "\"") {
+                field += "\"";
+                i++;
+            } else if (char === "\"") {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === "\"" && field === "") {
+            quoted = true;
+        } else if (char === separator) {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+// First row is the header; blank header cells become "Column N" and duplicates get a suffix
+function fromTable(table: unknown[][]): Dataset {
+    const [headerRow = [], ...body] = table;
+    const headers: string[] = [];
+    headerRow.forEach((cell, i) => {
+        let header = String(cell ?? "").trim() || `Column ${i + 1}`;
+        for (let n = 2; headers.includes(header); n++) header = `${String(cell).trim()} ${n}`;
+        headers.push(header);
+    });
+    const rows = body
+        .filter(cells => cells.some(cell => cell !== null && cell !== undefined && cell !== ""))
+        .map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? null])));
+    return { headers, rows };
+}
+
+function fromObjects(objects: unknown[]): Dataset {
+    const headers: string[] = [];
+    const rows = objects.map((object, i) => {
+        if (!object || typeof object !== "object" || Array.isArray(object)) {
+            throw new NocoDbApiError("validation", `Row ${i + 1} is not a JSON object.`);
+        }
+        Object.keys(object).forEach(key => headers.includes(key) || headers.push(key));
+        return object as Record<string, unknown>;
+    });
+    return { headers, rows };
+}
+
+export function parseDataset(content: Buffer, format: ImportFormat, options: { delimiter?: string; sheet?: string } = {}): Dataset {
+    try {
+        switch (format) {
+            case "csv":
+                return fromTable(parseCsv(content.toString("utf8"), options.delimiter));
+            case "json": {
+                const parsed = JSON.parse(content.toString("utf8"));
+                return fromObjects(Array.isArray(parsed) ? parsed : [parsed]);
+            }
+            case "jsonl":
+                return fromObjects(content.toString("utf8").split(/\r?\n/).filter(line => line.trim() !== "").map((line, i) => {
+                    try {
+                        return JSON.parse(line);
+                    } catch (error: any) {
+                        throw new NocoDbApiError("validation", `Line ${i + 1} is not valid JSON: ${error.message}`);
+                    }
+                }));
+            case "xlsx": {
+                const sheet = readXlsx(content, options.sheet);
+                return { ...fromTable(sheet.rows), sheet: sheet.name };
+            }
+        }
+    } catch (error: any) {
+        if (error instanceof NocoDbApiError) throw error;
+        throw new NocoDbApiError("validation", `Could not parse ${format.toUpperCase()} data: ${error.message}`);
+    }
+}
+
+// --- Column Type Inference ---
+const isBlank = (value: unknown) => value === null || value === undefined || value === "";
+
+// Most specific uidt that every non-empty value fits
+export function inferColumnType(values: unknown[]): string {
+    const present = values.filter(value => !isBlank(value));
+    if (present.length === 0) return "SingleLineText";
+    const all = (test: (value: unknown) => boolean) => present.every(test);
+    const text = (value: unknown) => String(value).trim();
+
+    // Zip codes, phone numbers and IDs such as "01234" would lose their leading zero as numbers
+    const leadingZero = (value: unknown) => typeof value === "string" && /^-?0\d/.test(text(value));
+
+    if (all(v => typeof v === "boolean" || /^(true|false)$/i.test(text(v)))) return "Checkbox";
+    if (!present.some(leadingZero)) {
+        if (all(v => typeof v === "number" ? Number.isInteger(v) : /^-?\d{1,15}$/.test(text(v)))) return "Number";
+        if (all(v => typeof v === "number" || /^-?\d+(\.\d+)?$/.test(text(v)))) return "Decimal";
+    }
+    if (all(v => /^\d{4}-\d{2}-\d{2}$/.test(text(v)))) return "Date";
+    if (all(v => /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/.test(text(v)))) return "DateTime";
+    if (all(v => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text(v)))) return "Email";
+    if (all(v => /^https?:\/\/\S+$/i.test(text(v)))) return "URL";
+    if (all(v => typeof v === "object")) return "JSON";
+    if (present.some(v => String(v).length > 255 || String(v).includes("\n"))) return "LongText";
+    return "SingleLineText";
+}
+
+// Header -> table column: an explicit mapping wins, then an exact title, then a case/space-insensitive match.
+// A mapping to null skips the header. Headers matching a read-only column (e.g. the 'Id' of an exported
+// table) are left unmapped, since NocoDB assigns those values itself.
+export function mapColumns(headers: string[], columns: string[], columnMap: Record<string, string | null> = {}, readOnlyColumns: string[] = []) {
+    const normalize = (name: string) => name.toLowerCase().replace(/[\s_-]+/g, "");
+    const mapping: Record<string, string> = {};
+    const unmapped: string[] = [];
+    for (const header of headers) {
+        if (header in columnMap) {
+            const target = columnMap[header];
+            if (target === null) continue;
+            if (!columns.includes(target)) {
+                throw new NocoDbApiError("validation", `columnMap maps '${header}' to '${target}', which is not a column of the table.`);
+            }
+            if (readOnlyColumns.includes(target)) {
+                throw new NocoDbApiError("validation", `columnMap maps '${header}' to '${target}', which NocoDB fills in itself and cannot be imported.`);
+            }
+            mapping[header] = target;
+            continue;
+        }
+        const match = columns.find(column => column === header) ?? columns.find(column => normalize(column) === normalize(header));
+        if (match && !readOnlyColumns.includes(match)) mapping[header] = match;
+        else unmapped.push(header);
+    }
+    return { mapping, unmapped };
+}
@@ -0,0 +1,111 @@
+import axios from "axios";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { RecordValidationError } from "./recordValidation.js";
+
+// --- Error Mapping ---
+// Every failure a tool can hit (NocoDB HTTP errors, network errors, local validation) is normalized
+// into a NocoDbApiError with a stable code, so the model sees why a call failed and what to do next.
+
+export type NocoDbErrorCode =
+    | "not_found"
+    | "validation"
+    | "auth"
+    | "rate_limited"
+    | "conflict"
+    | "upstream_unavailable"
+    | "internal";
+
+const REMEDIATION_HINTS: Record<NocoDbErrorCode, string> = {
+    not_found: "Check the table, record, column or view name/ID. Use 'nocodb-get-list-tables', 'nocodb-get-table-metadata' or 'nocodb-list-views' to see what exists.",
+    validation: "Fix the request arguments: check column names, value types and filter syntax against 'nocodb-get-table-metadata', then retry.",
+    auth: "The NocoDB token is missing, invalid or lacks permission for this base. Do not retry with the same credentials.",
+    rate_limited: "NocoDB is rate limiting requests. Wait before retrying and reduce the number of calls (use bulk tools or larger pages).",
+    conflict: "The request conflicts with the current state (e.g. a duplicate unique value or a concurrent change). Re-read the data before retrying.",
+    upstream_unavailable: "NocoDB is unreachable or failing. Retry later; do not change the request.",
+    internal: "Unexpected error in the MCP server. Retrying with the same arguments is unlikely to help.",
+};
+
+export class NocoDbApiError extends Error {
+    public readonly hint: string;
+
+    constructor(
+        public readonly code: NocoDbErrorCode,
+        message: string,
+        public readonly status?: number,
+        public readonly nocodbMessage?: string,
+        public readonly details?: unknown,
+    ) {
+        super(message);
+        this.name = "NocoDbApiError";
+        this.hint = REMEDIATION_HINTS[code];
+    }
+}
+
+function classifyStatus(status: number): NocoDbErrorCode {
+    if (status === 401 || status === 403) return "auth";
+    if (status === 404) return "not_found";
+    if (status === 409) return "conflict";
+    if (status === 429) return "rate_limited";
+    if (status >= 500) return "upstream_unavailable";
+    if (status >= 400) return "validation";
+    return "internal";
+}
+
+// NocoDB reports errors as { msg }, { message } or { error } depending on version and endpoint
+function extractNocoDbMessage(data: unknown): string | undefined {
+    if (!data) return undefined;
+    if (typeof data === "string") return data;
+    const body = data as Record<string, unknown>;
+    const message = body.msg ?? body.message ?? body.error;
+    return typeof message === "string" ? message : message !== undefined ? JSON.stringify(message) : undefined;
+}
+
+// Normalizes any thrown value; `context` prefixes the message (e.g. "Error adding column")
+export function toNocoDbError(error: unknown, context?: string): NocoDbApiError {
+    const prefix = (message: string) => context ? `${context}: ${message}` : message;
+
+    if (error instanceof NocoDbApiError) {
+        return context
+            ? new NocoDbApiError(error.code, prefix(error.message), error.status, error.nocodbMessage, error.details)
+            : error;
+    }
+    if (error instanceof RecordValidationError) {
+        return new NocoDbApiError("validation", prefix(error.message), undefined, undefined, { issues: error.issues });
+    }
+    if (axios.isAxiosError(error)) {
+        const status = error.response?.status;
+        const nocodbMessage = extractNocoDbMessage(error.response?.data);
+        if (status === undefined) {
+            // No response at all: DNS failure, refused connection, timeout
+            return new NocoDbApiError("upstream_unavailable", prefix(`NocoDB request failed: ${error.code ?? error.message}`));
+        }
+        const request = `${error.config?.method?.toUpperCase() ?? "REQUEST"} ${error.config?.url ?? ""}`.trim();
+        const retryAfter = error.response?.headers?.["retry-after"];
+        return new NocoDbApiError(classifyStatus(status), prefix(`${request} returned ${status}${nocodbMessage ? `: ${nocodbMessage}` : ""}`), status, nocodbMessage,
+            retryAfter ? { retryAfter } : undefined);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new NocoDbApiError("internal", prefix(message));
+}
+
+// Tool result for a failed call: isError plus a JSON body the model can act on
+export function toToolErrorResult(error: unknown): CallToolResult {
+    const normalized = toNocoDbError(error);
+    return {
+        isError: true,
+        content: [{
+            type: "text",
+            mimeType: "application/json",
+            text: JSON.stringify({
+                error: {
+                    code: normalized.code,
+                    status: normalized.status,
+                    message: normalized.message,
+                    nocodbMessage: normalized.nocodbMessage,
+                    hint: normalized.hint,
+                    ...(normalized.details ? { details: normalized.details } : {}),
+                }
+            }),
+        }],
+    };
+}
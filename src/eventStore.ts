@@ -0,0 +1,75 @@
+import { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+interface StoredEvent {
+    sequence: number;
+    message: JSONRPCMessage;
+    storedAt: number;
+}
+
+interface StoredStream {
+    events: StoredEvent[];
+}
+
+// In-memory EventStore used by the Streamable HTTP transport for resumability.
+// Every message sent on a stream gets an event ID of the form `<streamId>_<sequence>` (the sequence is
+// global to the store, so it never restarts even after a stream is pruned), so a client
+// reconnecting with `Last-Event-ID` can be replayed everything it missed on that stream.
+// Retention is bounded both per stream (maxEventsPerStream) and in time (maxAgeMs).
+export class InMemoryEventStore implements EventStore {
+    private streams = new Map<StreamId, StoredStream>();
+    private nextSequence = 1;
+
+    constructor(private maxEventsPerStream: number = 1000, private maxAgeMs: number = 30 * 60 * 1000) {
+    }
+
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+        let stream = this.streams.get(streamId);
+        if (!stream) {
+            stream = { events: [] };
+            this.streams.set(streamId, stream);
+        }
+        const sequence = this.nextSequence++;
+        stream.events.push({ sequence, message, storedAt: Date.now() });
+        if (stream.events.length > this.maxEventsPerStream) {
+            stream.events.splice(0, stream.events.length - this.maxEventsPerStream);
+        }
+        return `${streamId}_${sequence}`;
+    }
+
+    async replayEventsAfter(lastEventId: EventId, { send }: {
+        send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+    }): Promise<StreamId> {
+        const separatorIndex = lastEventId.lastIndexOf("_");
+        const streamId = separatorIndex > 0 ? lastEventId.slice(0, separatorIndex) : "";
+        const lastSequence = parseInt(lastEventId.slice(separatorIndex + 1), 10);
+        if (!streamId || isNaN(lastSequence)) {
+            throw new Error(`Malformed event ID '${lastEventId}'`);
+        }
+        // A stream pruned after a quiet spell has nothing to replay, but the reconnecting client
+        // still gets it back so later messages on that stream reach it
+        const stream = this.streams.get(streamId);
+        if (!stream) {
+            console.warn(`[EventStore] No stored events for stream ${streamId} (expired or unknown), nothing to replay.`);
+            return streamId;
+        }
+
+        const missed = stream.events.filter(event => event.sequence > lastSequence);
+        console.log(`[EventStore] Replaying ${missed.length} event(s) on stream ${streamId} after sequence ${lastSequence}.`);
+        for (const event of missed) {
+            await send(`${streamId}_${event.sequence}`, event.message);
+        }
+        return streamId;
+    }
+
+    // Drops events older than maxAgeMs and forgets streams with nothing left to replay
+    prune() {
+        const cutoff = Date.now() - this.maxAgeMs;
+        for (const [streamId, stream] of this.streams) {
+            stream.events = stream.events.filter(event => event.storedAt >= cutoff);
+            if (stream.events.length === 0) {
+                this.streams.delete(streamId);
+            }
+        }
+    }
+}
@@ -0,0 +1,163 @@
+import { z } from "zod";
+import { NocoDbApiError } from "./errors.js";
+import { suggestClosest } from "./recordValidation.js";
+
+// --- Structured Filters ---
+// An alternative to hand-written where strings: a JSON tree of {and|or|not: [...]} groups and
+// {field, op, value, subOp} conditions, validated against the operator list and the table's columns,
+// then compiled into NocoDB's where syntax. NocoDB's parser has no escape character, so values it
+// cannot represent are rejected with an explanation instead of silently matching the wrong rows.
+
+// Static resource serving the filterRules text from config.ts
+export const FILTER_RULES_URI = "nocodb://docs/filter-rules";
+
+export const FILTER_OPS = [
+    "eq", "neq", "not", "gt", "ge", "lt", "le", "is", "isnot", "like", "nlike",
+    "in", "btw", "nbtw", "allof", "anyof", "nallof", "nanyof",
+    "isWithin", "blank", "notblank", "checked", "notchecked",
+] as const;
+
+// Date/DateTime sub-operators for eq/neq/gt/ge/lt/le, and for isWithin
+const DATE_SUB_OPS = ["today", "tomorrow", "yesterday", "oneWeekAgo", "oneWeekFromNow", "oneMonthAgo", "oneMonthFromNow", "daysAgo", "daysFromNow", "exactDate"] as const;
+const WITHIN_SUB_OPS = ["pastWeek", "pastMonth", "pastYear", "nextWeek", "nextMonth", "nextYear", "pastNumberOfDays", "nextNumberOfDays"] as const;
+
+const NO_VALUE_OPS = new Set(["blank", "notblank", "checked", "notchecked"]);
+const LIST_OPS = new Set(["in", "allof", "anyof", "nallof", "nanyof"]);
+const RANGE_OPS = new Set(["btw", "nbtw"]);
+const SUB_OP_COMPARISONS = new Set(["eq", "neq", "gt", "ge", "lt", "le"]);
+const SUB_OPS_WITH_VALUE = new Set(["daysAgo", "daysFromNow", "exactDate", "pastNumberOfDays", "nextNumberOfDays"]);
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const conditionSchema = z.object({
+    field: z.string().describe("Column name."),
+    op: z.enum(FILTER_OPS).describe("Comparison operator."),
+    value: z.union([scalarSchema, z.array(scalarSchema)]).optional()
+        .describe("Value to compare with; an array for in/allof/anyof/nallof/nanyof and [from, to] for btw/nbtw. Omit for blank/notblank/checked/notchecked."),
+    subOp: z.enum([...DATE_SUB_OPS, ...WITHIN_SUB_OPS]).optional()
+        .describe("Date sub-operator, e.g. today, daysAgo, exactDate (with eq/gt/...), or pastWeek, pastNumberOfDays (with isWithin)."),
+}).strict();
+
+export type FilterCondition = z.infer<typeof conditionSchema>;
+export type StructuredFilter =
+    | FilterCondition
+    | { and: StructuredFilter[] }
+    | { or: StructuredFilter[] }
+    | { not: StructuredFilter[] };
+
+export const structuredFilterSchema: z.ZodType<StructuredFilter> = z.lazy(() => z.union([
+    conditionSchema,
+    z.object({ and: z.array(structuredFilterSchema).min(1) }).strict(),
+    z.object({ or: z.array(structuredFilterSchema).min(1) }).strict(),
+    z.object({ not: z.array(structuredFilterSchema).min(1).describe("Matches rows for which all of these are false together (NOT (a AND b)).") }).strict(),
+]));
+
+export interface FilterIssue {
+    path: string; // e.g. "and[1].or[0]"
+    message: string;
+    suggestion?: string;
+}
+
+// Parentheses are only safe when balanced: NocoDB finds the end of each condition by counting them
+function balanced(text: string): boolean {
+    let depth = 0;
+    for (const char of text) {
+        if (char === "(") depth++;
+        if (char === ")" && --depth < 0) return false;
+    }
+    return depth === 0;
+}
+
+function checkText(text: string, what: string, path: string, issues: FilterIssue[], allowCommas: boolean) {
+    if (!allowCommas && text.includes(",")) {
+        issues.push({ path, message: `${what} ${JSON.stringify(text)} contains a comma, which NocoDB's filter syntax uses as a separator here.` });
+    }
+    if (!balanced(text)) {
+        issues.push({ path, message: `${what} ${JSON.stringify(text)} has unbalanced parentheses, which NocoDB's filter syntax cannot express. Use 'like' with '%' in place of the parenthesis.` });
+    }
+    if (/~(and|or|not)\(/i.test(text)) {
+        issues.push({ path, message: `${what} ${JSON.stringify(text)} contains a logical operator sequence (~and( / ~or( / ~not() that NocoDB would parse as syntax.` });
+    }
+}
+
+function compileCondition(condition: FilterCondition, columns: string[], path: string, issues: FilterIssue[]): string {
+    const { field, op, value, subOp } = condition;
+    if (!columns.includes(field)) {
+        issues.push({ path, message: `Column '${field}' does not exist.`, suggestion: suggestClosest(field, columns) });
+    } else {
+        checkText(field, "Column name", path, issues, false);
+    }
+
+    const parts = [field, op];
+    const scalar = (v: unknown, allowCommas: boolean) => {
+        const text = String(v);
+        checkText(text, "Value", path, issues, allowCommas);
+        return text;
+    };
+
+    if (NO_VALUE_OPS.has(op)) {
+        if (value !== undefined) issues.push({ path, message: `Operator '${op}' takes no value.` });
+    } else if (LIST_OPS.has(op) || RANGE_OPS.has(op)) {
+        const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+        if (values.length === 0) issues.push({ path, message: `Operator '${op}' needs at least one value.` });
+        if (RANGE_OPS.has(op) && values.length !== 2) issues.push({ path, message: `Operator '${op}' needs exactly two values: [from, to].` });
+        parts.push(...values.map(v => scalar(v, false)));
+    } else if (op === "isWithin") {
+        if (!subOp || !(WITHIN_SUB_OPS as readonly string[]).includes(subOp)) {
+            issues.push({ path, message: `Operator 'isWithin' needs a subOp: ${WITHIN_SUB_OPS.join(", ")}.` });
+        } else {
+            parts.push(subOp);
+        }
+        if (subOp && SUB_OPS_WITH_VALUE.has(subOp)) {
+            if (value === undefined || Array.isArray(value)) issues.push({ path, message: `Sub-operator '${subOp}' needs a single value (number of days).` });
+            else parts.push(scalar(value, false));
+        }
+    } else if (subOp) {
+        if (!SUB_OP_COMPARISONS.has(op) || !(DATE_SUB_OPS as readonly string[]).includes(subOp)) {
+            issues.push({ path, message: `Sub-operator '${subOp}' cannot be used with '${op}'. Date sub-operators work with ${[...SUB_OP_COMPARISONS].join(", ")}; ${WITHIN_SUB_OPS.join(", ")} work with isWithin.` });
+        }
+        parts.push(subOp);
+        if (SUB_OPS_WITH_VALUE.has(subOp)) {
+            if (value === undefined || Array.isArray(value)) issues.push({ path, message: `Sub-operator '${subOp}' needs a single value.` });
+            else parts.push(scalar(value, false));
+        }
+    } else {
+        if (value === undefined) {
+            issues.push({ path, message: `Operator '${op}' needs a value. To match empty cells use 'blank' / 'notblank'.` });
+        } else if (Array.isArray(value)) {
+            issues.push({ path, message: `Operator '${op}' takes a single value; use 'in' or 'anyof' for a list.` });
+        } else {
+            // The last part of a plain condition runs to the closing parenthesis, so commas are safe here
+            parts.push(scalar(value, true));
+        }
+    }
+    return `(${parts.join(",")})`;
+}
+
+// Compiles a node to a term that can be joined with ~and / ~or: a condition or a parenthesized group
+function compileNode(node: StructuredFilter, columns: string[], path: string, issues: FilterIssue[]): { text: string; group: boolean } {
+    if ("field" in node) {
+        return { text: compileCondition(node, columns, path, issues), group: false };
+    }
+    const [key, children] = Object.entries(node)[0] as ["and" | "or" | "not", StructuredFilter[]];
+    const terms = children.map((child, i) => compileNode(child, columns, `${path ? `${path}.` : ""}${key}[${i}]`, issues));
+    const join = (separator: string) => terms.length === 1 ? terms[0].text : `(${terms.map(t => t.text).join(separator)})`;
+
+    if (key === "not") {
+        // ~not(x) reads as "and not x"; wrapping it in its own group makes it a standalone negation
+        return { text: `(~not${join("~and")})`, group: true };
+    }
+    return { text: join(key === "and" ? "~and" : "~or"), group: terms.length > 1 };
+}
+
+// Returns the where string for a structured filter, or throws a validation error listing every problem
+export function compileStructuredFilter(filter: StructuredFilter, columns: string[]): string {
+    const issues: FilterIssue[] = [];
+    const { text, group } = compileNode(filter, columns, "", issues);
+    if (issues.length > 0) {
+        throw new NocoDbApiError("validation", `Structured filter is invalid: ${issues.map(i => `${i.path ? `${i.path}: ` : ""}${i.message}`).join(" ")}`,
+            undefined, undefined, { issues });
+    }
+    // A top-level group does not need its outer parentheses
+    return group ? text.slice(1, -1) : text;
+}
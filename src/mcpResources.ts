@@ -0,0 +1,232 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+    ErrorCode,
+    McpError,
+    ReadResourceResult,
+    Resource,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { filterRules, NamedBases } from "./config.js";
+import * as NocoDB from "./nocodbApi.js";
+import { toNocoDbError } from "./errors.js";
+import { NocoDbSessionConfig, resolveNocoDbContext, runWithNocoDbContext } from "./nocodbContext.js";
+import { changeWatcher, WatchTarget } from "./changeWatcher.js";
+import { FILTER_RULES_URI } from "./filterBuilder.js";
+
+// --- MCP Resources ---
+// Read-only views of a base that clients can attach as context without spending tool calls:
+//   nocodb://{base}/tables                       table list
+//   nocodb://{base}/tables/{table}/schema         table metadata (columns, types, options)
+//   nocodb://{base}/tables/{table}/records        first page of records (optionally ?where=<filter>)
+//   nocodb://{base}/tables/{table}/records/{id}   a single record
+//   nocodb://docs/filter-rules                    reference for the 'filters' / 'where' syntax
+// {base} is a base ID or a name from NOCODB_BASES, {table} is the table title.
+// Record URIs can be subscribed to; changes are detected by changeWatcher.ts.
+
+// Template variables can repeat in RFC 6570; ours never do
+const variable = (variables: Variables, name: string): string => {
+    const value = variables[name];
+    return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+};
+
+// Record URIs that resources/subscribe accepts: a table, a filtered query or a single record
+function parseWatchUri(uri: string): { base: string; target: WatchTarget } | undefined {
+    let url: URL;
+    try {
+        url = new URL(uri);
+    } catch {
+        return undefined;
+    }
+    const match = url.pathname.match(/^\/tables\/([^/]+)\/records(?:\/([^/]+))?$/);
+    if (url.protocol !== "nocodb:" || !url.host || !match) return undefined;
+    return {
+        base: decodeURIComponent(url.host),
+        target: {
+            table: decodeURIComponent(match[1]),
+            recordId: match[2] !== undefined ? decodeURIComponent(match[2]) : undefined,
+            where: url.searchParams.get("where") ?? undefined,
+        },
+    };
+}
+
+const jsonContents = (uri: URL, data: unknown): ReadResourceResult => ({
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data) }],
+});
+
+export function registerNocoDbResources(server: McpServer, sessionConfig: NocoDbSessionConfig = {}) {
+
+    console.log("[mcpResources] Registering NocoDB resources...");
+
+    // Runs fn against the requested base with the session's credentials; errors surface as JSON-RPC errors
+    const withBase = async <T>(base: string | undefined, fn: () => Promise<T>): Promise<T> => {
+        try {
+            return await runWithNocoDbContext(resolveNocoDbContext(sessionConfig, base), fn);
+        } catch (error: any) {
+            throw toNocoDbError(error);
+        }
+    };
+
+    // Bases a session can reach: its own base plus every configured named base
+    const reachableBases = (): string[] => {
+        const bases = new Set<string>();
+        try {
+            bases.add(resolveNocoDbContext(sessionConfig).baseId);
+        } catch {
+            // No default base/token for this session; only named bases are listed
+        }
+        Object.keys(NamedBases).forEach(name => bases.add(name));
+        return [...bases];
+    };
+
+    // Table titles of a base (default: the session's own), used for listing and completion
+    const tableTitles = async (base?: string): Promise<string[]> => {
+        try {
+            return await withBase(base, () => NocoDB.getListTables());
+        } catch (error: any) {
+            console.error(`[mcpResources] Could not list tables for ${base ?? "default base"}: ${error.message}`);
+            return [];
+        }
+    };
+
+    const completeBase = (value: string) => reachableBases().filter(base => base.startsWith(value));
+    const completeTable = async (value: string, context?: { arguments?: Record<string, string> }) =>
+        (await tableTitles(context?.arguments?.base)).filter(title => title.toLowerCase().startsWith(value.toLowerCase()));
+
+    server.resource("nocodb-tables",
+        new ResourceTemplate("nocodb://{base}/tables", {
+            list: async () => ({
+                resources: reachableBases().map((base): Resource => ({
+                    uri: `nocodb://${encodeURIComponent(base)}/tables`,
+                    name: `Tables in ${base}`,
+                    mimeType: "application/json",
+                })),
+            }),
+            complete: { base: completeBase },
+        }),
+        { description: "List of tables in a NocoDB base.", mimeType: "application/json" },
+        async (uri, variables) => {
+            const base = variable(variables, "base");
+            const tables = await withBase(base, () => NocoDB.getListTables());
+            return jsonContents(uri, { base, tables });
+        }
+    );
+
+    server.resource("nocodb-table-schema",
+        new ResourceTemplate("nocodb://{base}/tables/{table}/schema", {
+            // Only the session's own base is enumerated, to keep listing to a single cached request
+            list: async () => {
+                let base: string;
+                try {
+                    base = resolveNocoDbContext(sessionConfig).baseId;
+                } catch {
+                    return { resources: [] };
+                }
+                const tables = await tableTitles();
+                return {
+                    resources: tables.map((title): Resource => ({
+                        uri: `nocodb://${encodeURIComponent(base)}/tables/${encodeURIComponent(title)}/schema`,
+                        name: `Schema of ${title}`,
+                        mimeType: "application/json",
+                    })),
+                };
+            },
+            complete: { base: completeBase, table: completeTable },
+        }),
+        { description: "Column metadata (names, types, select options) of a NocoDB table.", mimeType: "application/json" },
+        async (uri, variables) => {
+            const table = variable(variables, "table");
+            const metadata = await withBase(variable(variables, "base"), () => NocoDB.getTableMetadata(table));
+            return jsonContents(uri, metadata);
+        }
+    );
+
+    // Registered twice because a {?where} template does not match URIs without the query
+    const readRecordsPage = async (uri: URL, variables: Variables) => {
+        const table = variable(variables, "table");
+        const where = variables.where !== undefined ? variable(variables, "where") : undefined;
+        const response = await withBase(variable(variables, "base"), () => NocoDB.getRecords(table, where));
+        return jsonContents(uri, response.output);
+    };
+
+    server.resource("nocodb-table-records",
+        new ResourceTemplate("nocodb://{base}/tables/{table}/records", {
+            list: undefined,
+            complete: { base: completeBase, table: completeTable },
+        }),
+        { description: "First page of records of a NocoDB table. Subscribe to be notified when rows change.", mimeType: "application/json" },
+        readRecordsPage
+    );
+
+    server.resource("nocodb-table-query",
+        new ResourceTemplate("nocodb://{base}/tables/{table}/records{?where}", {
+            list: undefined,
+            complete: { base: completeBase, table: completeTable },
+        }),
+        { description: "First page of records matching a NocoDB filter, e.g. ?where=(Status,eq,Open). Subscribe to be notified when matching rows change.", mimeType: "application/json" },
+        readRecordsPage
+    );
+
+    server.resource("nocodb-record",
+        new ResourceTemplate("nocodb://{base}/tables/{table}/records/{id}", {
+            list: undefined, // Records are addressed directly, never enumerated
+            complete: { base: completeBase, table: completeTable },
+        }),
+        { description: "A single record of a NocoDB table, by primary key. Subscribe to be notified when it changes.", mimeType: "application/json" },
+        async (uri, variables) => {
+            const table = variable(variables, "table");
+            const record = await withBase(variable(variables, "base"), () => NocoDB.getRecord(table, variable(variables, "id")));
+            return jsonContents(uri, record);
+        }
+    );
+
+    server.resource("nocodb-filter-rules", FILTER_RULES_URI,
+        { description: "Reference for NocoDB's where syntax used by the 'filters' and 'where' tool parameters.", mimeType: "text/plain" },
+        async (uri) => ({ contents: [{ uri: uri.href, mimeType: "text/plain", text: filterRules }] })
+    );
+
+    // --- Subscriptions ---
+    // uri -> function that stops this session's listener; the McpServer serves a single session
+    const subscriptions = new Map<string, () => void>();
+
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        const uri = request.params.uri;
+        if (subscriptions.has(uri)) return {};
+        const parsed = parseWatchUri(uri);
+        if (!parsed) {
+            throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to '${uri}'. Subscribe to nocodb://{base}/tables/{table}/records (optionally ?where=<filter>) or nocodb://{base}/tables/{table}/records/{id}.`);
+        }
+        try {
+            const context = resolveNocoDbContext(sessionConfig, parsed.base);
+            const unsubscribe = await changeWatcher.subscribe(context, parsed.target, () => {
+                server.server.sendResourceUpdated({ uri }).catch(error => {
+                    console.error(`[mcpResources] Failed to send update for ${uri}: ${error.message}`);
+                });
+            });
+            subscriptions.set(uri, unsubscribe);
+        } catch (error: any) {
+            throw toNocoDbError(error, `Cannot subscribe to '${uri}'`);
+        }
+        console.log(`[mcpResources] Subscribed to ${uri}`);
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.get(request.params.uri)?.();
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    // Stop polling for this session once it disconnects, keeping any close handler set before
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+        subscriptions.forEach(unsubscribe => unsubscribe());
+        subscriptions.clear();
+        previousOnClose?.();
+    };
+
+    console.log("[mcpResources] All NocoDB resources registered.");
+}
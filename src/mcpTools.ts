@@ -1,15 +1,122 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { z } from "zod";
-import { filterRules } from "./config.js"; // Import filter rules description
+import { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape } from "zod";
+import { NamedBases, NocoDbBaseId } from "./config.js";
 import * as NocoDB from "./nocodbApi.js"; // Import all API functions
+import { NocoDbApiError, toToolErrorResult } from "./errors.js";
+import { NocoDbSessionConfig, resolveNocoDbContext, runWithNocoDbContext } from "./nocodbContext.js";
+import { receiverUrlFor, WEBHOOK_SECRET_HEADER, WebhookSecret } from "./webhooks.js";
+import { FILTER_RULES_URI, structuredFilterSchema } from "./filterBuilder.js";
+import { columnSettingsShape, columnTypeSchema, SIMPLE_COLUMN_TYPES } from "./columnOptions.js";
+import { attachmentSourceShape, readAttachmentSource, toAttachmentContent } from "./attachments.js";
+import { detectImportFormat, parseDataset } from "./dataImport.js";
+import { EXPORT_FORMATS, RECORD_FORMATS, RecordFormat, renderExport, saveExport, toRecordsContent } from "./recordFormat.js";
+import { FieldsInput } from "./queryParams.js";
+import { shapeRecords, shapingShape } from "./responseShaping.js";
+
+// The full operator reference is served as a resource instead of being repeated in every tool description
+const FILTER_RULES_HINT = `Filter syntax: (field,op,value) joined with ~and / ~or / ~not, e.g. (status,eq,open)~and(total,gt,100). ` +
+    `Full operator reference: resource ${FILTER_RULES_URI}. Prefer the structured 'filter' parameter where available.`;
+
+// Record tools trim their responses by default (see responseShaping.ts)
+const SHAPING_HINT = `Responses are trimmed: system columns are left out, long text is cut, attachment and link cells are summarized ` +
+    `(read files with 'nocodb-get-attachment'), and records past the size cap are dropped. The result's 'shaping' says what changed ` +
+    `(if records were dropped, continue from pageInfo.nextOffset). Pass raw=true for NocoDB's full response.`;
+
+const STRUCTURED_FILTER_DESCRIPTION = "Structured alternative to 'filters': a tree of {and: [...]}, {or: [...]}, {not: [...]} and {field, op, value, subOp} conditions. " +
+    "Field names are checked against the table. NocoDB's filter syntax has no escaping, so values it cannot express (unbalanced parentheses, commas in list values, ~and( and the like) are rejected with an explanation. Combined with 'filters' using AND when both are given.";
+
+// sort/fields accept NocoDB's comma-separated form or arrays, which are safer for titles with spaces or non-ASCII text
+const sortSchema = z.union([
+    z.string(),
+    z.array(z.union([z.string(), z.object({ field: z.string(), direction: z.enum(["asc", "desc"]).optional() })])),
+]);
+const fieldsSchema = z.union([z.string(), z.array(z.string())]);
+const formatSchema = z.enum(RECORD_FORMATS).optional().describe("Output format: 'json' (default, records as objects), " +
+    "'compact' (column names once, rows as arrays), or a 'csv' / 'markdown' table. Fewer tokens than 'json' for many rows.");
+
+interface RecordOutputParams {
+    format?: RecordFormat;
+    fields?: FieldsInput;
+    offset?: number;
+    raw?: boolean;
+    includeSystemColumns?: boolean;
+    maxCellChars?: number;
+    maxResponseChars?: number;
+    // JSON layout of the tool's response: { output: { list, pageInfo } } (get-records), { list, pageInfo } (get-linked-records) or one record (get-record)
+    layout?: "output" | "list" | "record";
+}
+
+// Records shaped (unless raw) and in the requested format. The input echo is dropped, pageInfo is kept for paging.
+async function recordsResult(tableName: string, response: any, params: RecordOutputParams): Promise<CallToolResult> {
+    const format = params.format ?? "json";
+    const layout = params.layout ?? "output";
+    const { list = [], pageInfo: sourcePageInfo } = layout === "record" ? { list: [response] } : layout === "list" ? response ?? {} : response.output ?? {};
+    if (params.raw) {
+        return format === "json"
+            ? { content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }] }
+            : { content: toRecordsContent(list, format, params.fields, sourcePageInfo ? { pageInfo: sourcePageInfo } : {}) };
+    }
+
+    const metadata = await NocoDB.getTableMetadata(tableName);
+    const { records, report } = shapeRecords(list, metadata.columns || [], {
+        includeSystemColumns: params.includeSystemColumns,
+        maxCellChars: params.maxCellChars,
+        maxResponseChars: params.maxResponseChars,
+        keep: params.fields === undefined ? undefined : typeof params.fields === "string" ? params.fields.split(",").map(f => f.trim()) : params.fields,
+    });
+    const shaping = Object.keys(report).length > 0 ? report : undefined;
+    // Dropped records move the place to continue from back, so pageInfo.nextOffset stays the only resume point
+    const pageInfo = report.omittedRecords && layout !== "record"
+        ? {
+            ...sourcePageInfo,
+            nextOffset: (params.offset ?? 0) + records.length,
+            ...(sourcePageInfo && "isComplete" in sourcePageInfo ? { isComplete: false, stoppedReason: "response_size" } : {}),
+            ...(sourcePageInfo && "isLastPage" in sourcePageInfo ? { isLastPage: false } : {}),
+        }
+        : sourcePageInfo;
+    if (format === "json" && layout === "record") {
+        const content: CallToolResult["content"] = [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(records[0]) }];
+        if (shaping) content.push({ type: 'text', mimeType: 'application/json', text: JSON.stringify({ shaping }) });
+        return { content };
+    }
+    if (format === "json") {
+        const body = { list: records, pageInfo, shaping };
+        return { content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(layout === "list" ? body : { output: body }) }] };
+    }
+    const extra: Record<string, unknown> = {};
+    if (pageInfo) extra.pageInfo = pageInfo;
+    if (shaping) extra.shaping = shaping;
+    return { content: toRecordsContent(records, format, params.fields, extra) };
+}
 
 // Define a function to register all tools with the MCP server instance
-export function registerNocoDbTools(server: McpServer) {
+// sessionConfig carries the NocoDB credentials/base the connecting client supplied (empty = server defaults)
+export function registerNocoDbTools(server: McpServer, sessionConfig: NocoDbSessionConfig = {}) {
 
     console.log("[mcpTools] Registering NocoDB tools...");
 
+    // Registers a tool whose handler runs against the session's NocoDB credentials.
+    // Every tool also accepts an optional 'baseId' (a raw base ID or a name from NOCODB_BASES).
+    // Any error is returned as an isError result with a classified code and hint (see errors.ts).
+    const tool = <Args extends ZodRawShape>(name: string, description: string, paramsSchema: Args, cb: ToolCallback<Args>) => {
+        const schema = {
+            ...paramsSchema,
+            baseId: z.string().optional().describe("Optional NocoDB base to use: a base ID or a configured base name. Defaults to the session's base."),
+        };
+        return server.tool(name, description, schema as ZodRawShape, async (params, extra) => {
+            try {
+                const context = resolveNocoDbContext(sessionConfig, params.baseId);
+                return await runWithNocoDbContext(context, async () => cb(params as Parameters<ToolCallback<Args>>[0], extra));
+            } catch (error: any) {
+                console.error(`[mcpTools] Tool ${name} failed: ${error.message}`);
+                return toToolErrorResult(error);
+            }
+        });
+    };
+
     // --- Record Tools ---
-    server.tool("nocodb-get-records",
+    tool("nocodb-get-records",
         "Nocodb - Get Records. Retrieves a list of records from a table, with options for filtering, sorting, pagination, and field selection." +
         `\nHints:\n` +
         `1. Get all records (default limit applies): get_records(table_name="customers")\n` +
@@ -17,61 +124,96 @@ export function registerNocoDbTools(server: McpServer) {
         `3. Paginate: get_records(table_name="products", limit=50, offset=100)\n` +
         `4. Sort: get_records(table_name="users", sort="-lastLogin,name")\n` +
         `5. Select fields: get_records(table_name="tasks", fields="id,title,dueDate")\n` +
-        `Filter Rules:\n${filterRules}`,
+        `6. Fetch every page server-side: get_records(table_name="orders", filters="(status,eq,open)", all=true)\n` +
+        `7. Fetch up to N rows across pages: get_records(table_name="orders", max_records=500)\n` +
+        `8. Reuse a curated view (its filters, sorts and visible fields apply): get_records(table_name="orders", view="Open orders")\n` +
+        `9. Structured filter (no syntax to escape): get_records(table_name="orders", filter={"and": [{"field": "status", "op": "eq", "value": "open"}, {"field": "total", "op": "gt", "value": 100}]})\n` +
+        `10. Readable table instead of JSON: get_records(table_name="orders", limit=20, format="markdown")\n` +
+        `When paging server-side, check output.pageInfo.isComplete; if false, continue from pageInfo.nextOffset.\n` +
+        SHAPING_HINT + `\n` +
+        FILTER_RULES_HINT,
         {
             tableName: z.string().describe("Name of the NocoDB table."),
             filters: z.string().optional().describe("Filtering conditions using NocoDB's query language."),
+            filter: structuredFilterSchema.optional().describe(STRUCTURED_FILTER_DESCRIPTION),
             limit: z.number().int().positive().optional().describe("Maximum number of records to return."),
             offset: z.number().int().nonnegative().optional().describe("Number of records to skip (for pagination)."),
-            sort: z.string().optional().describe("Comma-separated list of fields to sort by. Prefix with '-' for descending order (e.g., '-createdAt,name')."),
-            fields: z.string().optional().describe("Comma-separated list of field names to include in the response."),
+            sort: sortSchema.optional().describe("Fields to sort by: a comma-separated list with '-' for descending order (e.g., '-createdAt,name'), or an array such as [{\"field\": \"createdAt\", \"direction\": \"desc\"}, \"name\"]."),
+            fields: fieldsSchema.optional().describe("Field names to include in the response, comma-separated or as an array."),
+            view: z.string().optional().describe("Name or ID of a view of the table to query through (see 'nocodb-list-views')."),
+            all: z.boolean().optional().describe("Follow pagination server-side and return every matching record (subject to the server's hard cap and byte budget). 'limit' is ignored."),
+            maxRecords: z.number().int().positive().optional().describe("Follow pagination server-side until this many records are collected. 'limit' is ignored."),
+            maxBytes: z.number().int().positive().optional().describe("Approximate size budget (bytes of JSON) for server-side pagination."),
+            format: formatSchema,
+            ...shapingShape,
         },
-        async (params) => {
-            const response = await NocoDB.getRecords(params.tableName, params.filters, params.limit, params.offset, params.sort, params.fields);
-            return {
-                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+        async (params, extra) => {
+            const viewId = params.view ? await NocoDB.getViewId(params.tableName, params.view) : undefined;
+            const filters = await NocoDB.buildWhere(params.tableName, params.filters, params.filter);
+            let response;
+            if (params.all || params.maxRecords) {
+                const progressToken = extra._meta?.progressToken;
+                response = await NocoDB.getAllRecords(params.tableName, filters, params.sort, params.fields, {
+                    maxRecords: params.maxRecords,
+                    maxBytes: params.maxBytes,
+                    startOffset: params.offset,
+                    viewId,
+                    signal: extra.signal,
+                    // Report each page as a progress notification when the client asked for progress
+                    onPage: progressToken === undefined ? undefined : async (_page, progress) => {
+                        await extra.sendNotification({
+                            method: "notifications/progress",
+                            params: { progressToken, progress: progress.fetched, total: progress.total },
+                        });
+                    },
+                });
+            } else {
+                response = await NocoDB.getRecords(params.tableName, filters, params.limit, params.offset, params.sort, params.fields, viewId);
             }
+            return recordsResult(params.tableName, response, params);
         }
     );
 
-    server.tool("nocodb-post-records",
+    tool("nocodb-post-records",
         "Nocodb - Post Records. Creates one or more new records in a specified table." +
-        `\nIMPORTANT: Use 'nocodb-get-table-metadata' first to confirm the exact column names (case-sensitive) required for the table.` +
+        `\nThe payload is validated against the table's columns before it is sent: unknown columns (with suggestions), value types, select options, required and read-only columns are reported as a list of issues.` +
         `\nExample:\n` +
         `post_records(table_name="tasks", data={"title": "New Task", "priority": "High", "dueDate": "2025-12-31"})`,
         {
             tableName: z.string().describe("Name of the NocoDB table."),
-            data: z.any().describe("An object representing a single record or an array of objects for multiple records. Keys must match table column names exactly.")
+            data: z.any().describe("An object representing a single record or an array of objects for multiple records. Keys must match table column names exactly."),
+            validate: z.boolean().optional().describe("Validate the payload against the table schema before sending (default true)."),
         },
         async (params) => {
-            const response = await NocoDB.postRecords(params.tableName, params.data);
+            const response = await NocoDB.postRecords(params.tableName, params.data, { validate: params.validate });
             return {
                 content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
             }
         }
     );
 
-    server.tool("nocodb-patch-records",
-        "Nocodb - Patch Records. Updates one or more existing records in a specified table." +
-        `\nIMPORTANT: Use 'nocodb-get-table-metadata' first to confirm the exact column names (case-sensitive) for the fields you want to update.` +
+    tool("nocodb-patch-records",
+        "Nocodb - Patch Records. Updates a single existing record in a specified table. To update many rows, use 'nocodb-bulk-patch-records'." +
+        `\nThe fields are validated against the table's columns before they are sent; problems come back as a list of issues.` +
         `\nExample:\n` +
         `patch_records(table_name="tasks", row_id=5, data={"status": "Completed", "completedAt": "2025-04-13"})`,
         {
             tableName: z.string().describe("Name of the NocoDB table."),
             rowId: z.number().int().positive().describe("The ID of the record to update."), // Assuming single record update for simplicity, NocoDB API might support batch
-            data: z.any().describe("An object containing the fields to update. Keys must match table column names exactly.")
+            data: z.any().describe("An object containing the fields to update. Keys must match table column names exactly."),
+            validate: z.boolean().optional().describe("Validate the fields against the table schema before sending (default true)."),
         },
         async (params) => {
             // Note: The underlying NocoDB.patchRecords function expects rowId separately
-            const response = await NocoDB.patchRecords(params.tableName, params.rowId, params.data);
+            const response = await NocoDB.patchRecords(params.tableName, params.rowId, params.data, { validate: params.validate });
             return {
                 content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
             }
         }
     );
 
-    server.tool("nocodb-delete-records",
-        "Nocodb - Delete Records. Deletes one or more records from a specified table." +
+    tool("nocodb-delete-records",
+        "Nocodb - Delete Records. Deletes a single record from a specified table. To delete many rows, use 'nocodb-bulk-delete-records'." +
         `\nExample:\n` +
         `delete_records(table_name="tasks", row_id=10)`,
         {
@@ -86,37 +228,158 @@ export function registerNocoDbTools(server: McpServer) {
         }
     );
 
-    server.tool("nocodb-get-record",
+    tool("nocodb-bulk-patch-records",
+        "Nocodb - Bulk Patch Records. Updates many records at once, either from a list of {id, ...fields} objects or by applying the same 'data' to every row matching a 'where' filter. Changes are sent in chunks and a result is reported per chunk." +
+        `\nThe fields are validated against the table's columns before anything is sent; problems come back as a list of issues.` +
+        `\nTip: run with dry_run=true first to preview the affected IDs.` +
+        `\nExamples:\n` +
+        `1. By IDs: bulk_patch_records(table_name="tasks", records=[{"id": 1, "status": "Done"}, {"id": 2, "status": "Blocked"}])\n` +
+        `2. By filter: bulk_patch_records(table_name="tasks", where="(status,eq,Open)~and(dueDate,lt,exactDate,2025-01-01)", data={"status": "Overdue"})\n` +
+        FILTER_RULES_HINT,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            records: z.array(z.object({ id: z.number().or(z.string()) }).passthrough()).optional().describe("Records to update, each with its 'id' and the fields to change."),
+            where: z.string().optional().describe("Filter selecting the rows to update (used when 'records' is not given)."),
+            data: z.record(z.any()).optional().describe("Fields to set on every row matched by 'where'."),
+            chunkSize: z.number().int().positive().max(1000).optional().describe("Records per PATCH request (default 100)."),
+            dryRun: z.boolean().optional().describe("Only report the IDs that would be updated."),
+            maxRecords: z.number().int().positive().optional().describe("Refuse to proceed if 'where' matches more than this many rows."),
+            validate: z.boolean().optional().describe("Validate the fields against the table schema before sending (default true)."),
+        },
+        async (params) => {
+            const response = await NocoDB.bulkPatchRecords(params.tableName,
+                { records: params.records, where: params.where, data: params.data },
+                { chunkSize: params.chunkSize, dryRun: params.dryRun, maxRecords: params.maxRecords, validate: params.validate });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-bulk-delete-records",
+        "Nocodb - Bulk Delete Records. Deletes many records at once, either from a list of {id} objects or every row matching a 'where' filter. Deletes are sent in chunks and a result is reported per chunk." +
+        `\nWARNING: This is irreversible. Run with dry_run=true first to preview the affected IDs.` +
+        `\nExamples:\n` +
+        `1. By IDs: bulk_delete_records(table_name="tasks", records=[{"id": 1}, {"id": 2}])\n` +
+        `2. By filter: bulk_delete_records(table_name="logs", where="(createdAt,lt,exactDate,2024-01-01)", dry_run=true)`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            records: z.array(z.object({ id: z.number().or(z.string()) })).optional().describe("Records to delete, each given by its 'id'."),
+            where: z.string().optional().describe("Filter selecting the rows to delete (used when 'records' is not given)."),
+            chunkSize: z.number().int().positive().max(1000).optional().describe("Records per DELETE request (default 100)."),
+            dryRun: z.boolean().optional().describe("Only report the IDs that would be deleted."),
+            maxRecords: z.number().int().positive().optional().describe("Refuse to proceed if 'where' matches more than this many rows."),
+        },
+        async (params) => {
+            const response = await NocoDB.bulkDeleteRecords(params.tableName,
+                { records: params.records, where: params.where },
+                { chunkSize: params.chunkSize, dryRun: params.dryRun, maxRecords: params.maxRecords });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-upsert-records",
+        "Nocodb - Upsert Records. Inserts or updates rows keyed on one or more unique columns: rows whose key values match an existing record update it, the rest are created." +
+        ` Existing records are looked up in batches, and every input row gets an outcome: created, updated, unchanged, or error.` +
+        ` Rows are validated against the table's columns first; a row that does not fit gets an error outcome with the reasons.` +
+        `\nExample:\n` +
+        `upsert_records(table_name="contacts", key_fields=["Email"], rows=[{"Email": "a@example.com", "Name": "Ann"}, {"Email": "b@example.com", "Name": "Bob"}])`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            keyFields: z.array(z.string()).min(1).describe("Column names that together identify a row (e.g. ['Email'] or ['Region', 'Code'])."),
+            rows: z.array(z.record(z.any())).min(1).describe("Rows to upsert. Each must include every key field."),
+            batchSize: z.number().int().positive().max(200).optional().describe("Rows per lookup/write batch (default 50)."),
+            validate: z.boolean().optional().describe("Check rows against the table schema before writing (default true)."),
+        },
+        async (params) => {
+            const response = await NocoDB.upsertRecords(params.tableName, params.keyFields, params.rows, { batchSize: params.batchSize, validate: params.validate });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-get-record",
         "Nocodb - Get Record. Retrieves a single specific record by its ID." +
         `\nHints:\n` +
         `1. Get record by ID: get_record(table_name="customers", record_id=123)\n` +
-        `2. Select specific fields: get_record(table_name="customers", record_id=123, fields="id,name,email")`,
+        `2. Select specific fields: get_record(table_name="customers", record_id=123, fields="id,name,email")\n` +
+        SHAPING_HINT,
         {
             tableName: z.string().describe("Name of the NocoDB table."),
             recordId: z.string().or(z.number()).describe("The ID of the specific record to retrieve."),
-            fields: z.string().optional().describe("Comma-separated list of fields to return.")
+            fields: fieldsSchema.optional().describe("Fields to return, comma-separated or as an array."),
+            format: formatSchema,
+            ...shapingShape,
         },
         async (params) => {
             const response = await NocoDB.getRecord(params.tableName, String(params.recordId), params.fields);
-            return {
-                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
-            }
+            return recordsResult(params.tableName, response, { ...params, layout: "record" });
         }
     );
 
-    server.tool("nocodb-count-records",
+    tool("nocodb-count-records",
         "Nocodb - Count Records. Counts the number of records in a table, optionally applying filters." +
         `\nHints:\n` +
         `1. Count all: count_records(table_name="orders")\n` +
         `2. Count with filter: count_records(table_name="orders", filters="(status,eq,pending)")\n` +
-        `3. Count in view: count_records(table_name="orders", view_id="vw_abc123")`,
+        `3. Count in view: count_records(table_name="orders", view_id="Open orders")`,
         {
             tableName: z.string().describe("Name of the NocoDB table."),
             filters: z.string().optional().describe("Filtering conditions (same format as get-records)."),
-            viewId: z.string().optional().describe("Optional view ID to count records within a specific view.")
+            filter: structuredFilterSchema.optional().describe(STRUCTURED_FILTER_DESCRIPTION),
+            viewId: z.string().optional().describe("Optional view ID or name to count records within a specific view.")
         },
         async (params) => {
-            const response = await NocoDB.countRecords(params.tableName, params.filters, params.viewId);
+            const viewId = params.viewId ? await NocoDB.getViewId(params.tableName, params.viewId) : undefined;
+            const filters = await NocoDB.buildWhere(params.tableName, params.filters, params.filter);
+            const response = await NocoDB.countRecords(params.tableName, filters, viewId);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-aggregate",
+        "Nocodb - Aggregate. Groups records and computes metrics on the server, returning a compact table instead of raw rows." +
+        `\nUse this instead of fetching every record to answer questions like "total revenue per region".` +
+        `\nMetrics: count (rows, or non-empty values of 'field'), sum, avg, min, max, countDistinct. 'having' and 'sort' refer to group-by columns or metric aliases.` +
+        `\nExample:\n` +
+        `aggregate(table_name="orders", group_by=["Region"], metrics=[{"op": "sum", "field": "Revenue", "as": "revenue"}, {"op": "count"}], where="(Status,eq,paid)", having=[{"column": "revenue", "op": "gt", "value": 1000}], sort=[{"column": "revenue", "direction": "desc"}])` +
+        `\nThe result's 'isComplete' is false if the table was larger than the server's paging limits.`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            groupBy: z.array(z.string()).default([]).describe("Columns to group by (empty = one row over all matching records)."),
+            metrics: z.array(z.object({
+                op: z.enum(["count", "sum", "avg", "min", "max", "countDistinct"]),
+                field: z.string().optional().describe("Column to aggregate (required except for count)."),
+                as: z.string().optional().describe("Name of the output column (default e.g. 'sum_Revenue')."),
+            })).min(1).describe("Metrics to compute per group."),
+            where: z.string().optional().describe("Filter applied before grouping, in NocoDB's filter syntax (same as get-records)."),
+            having: z.array(z.object({
+                column: z.string(),
+                op: z.enum(["eq", "neq", "gt", "ge", "lt", "le"]),
+                value: z.union([z.number(), z.string()]),
+            })).optional().describe("Conditions on group-by columns or metric aliases, applied after grouping."),
+            sort: z.array(z.object({
+                column: z.string(),
+                direction: z.enum(["asc", "desc"]).optional(),
+            })).optional().describe("Sort groups by group-by columns or metric aliases."),
+            limit: z.number().int().positive().optional().describe("Maximum number of groups to return."),
+            view: z.string().optional().describe("Name or ID of a view to aggregate over."),
+        },
+        async (params, extra) => {
+            const viewId = params.view ? await NocoDB.getViewId(params.tableName, params.view) : undefined;
+            const response = await NocoDB.aggregate(params.tableName, params.groupBy, params.metrics, {
+                where: params.where,
+                having: params.having,
+                sort: params.sort,
+                limit: params.limit,
+                viewId,
+                signal: extra.signal,
+            });
             return {
                 content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
             }
@@ -124,31 +387,37 @@ export function registerNocoDbTools(server: McpServer) {
     );
 
     // --- Linked Record Tools ---
-    server.tool("nocodb-get-linked-records",
+    tool("nocodb-get-linked-records",
         "Nocodb - Get Linked Records. Retrieves records linked to a specific record via a LinkToAnotherRecord field." +
         `\nHints:\n` +
         `1. Get all linked: get_linked_records(table_name="orders", link_field_id="cl_xyz123", record_id=1)\n` +
-        `2. With options: get_linked_records(table_name="orders", link_field_id="cl_xyz123", record_id=1, fields="id,product_name", limit=10)`,
+        `2. With options: get_linked_records(table_name="orders", link_field_id="cl_xyz123", record_id=1, fields="id,product_name", limit=10)\n` +
+        SHAPING_HINT,
         {
             tableName: z.string().describe("Name of the table containing the link field."),
             linkFieldId: z.string().describe("The ID of the LinkToAnotherRecord column (e.g., 'cl_xyz123'). Get this from table metadata."),
             recordId: z.string().or(z.number()).describe("The ID of the record whose linked records you want to retrieve."),
-            fields: z.string().optional().describe("Fields to return for the linked records."),
-            sort: z.string().optional().describe("Sorting for the linked records."),
+            fields: fieldsSchema.optional().describe("Fields to return for the linked records, comma-separated or as an array."),
+            sort: sortSchema.optional().describe("Sorting for the linked records, same forms as in get-records."),
             filters: z.string().optional().describe("Filtering for the linked records."),
+            filter: structuredFilterSchema.optional().describe(`${STRUCTURED_FILTER_DESCRIPTION} Field names refer to the linked table.`),
             limit: z.number().int().positive().optional(),
-            offset: z.number().int().nonnegative().optional()
+            offset: z.number().int().nonnegative().optional(),
+            format: formatSchema,
+            ...shapingShape,
         },
         async (params) => {
-            const options = { fields: params.fields, sort: params.sort, filters: params.filters, limit: params.limit, offset: params.offset };
+            const filters = params.filter
+                ? await NocoDB.buildWhere(await NocoDB.getLinkedTableName(params.tableName, params.linkFieldId), params.filters, params.filter)
+                : params.filters;
+            const options = { fields: params.fields, sort: params.sort, filters, limit: params.limit, offset: params.offset };
             const response = await NocoDB.getLinkedRecords(params.tableName, params.linkFieldId, String(params.recordId), options);
-            return {
-                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
-            }
+            const linkedTable = params.raw ? params.tableName : await NocoDB.getLinkedTableName(params.tableName, params.linkFieldId);
+            return recordsResult(linkedTable, response, { ...params, layout: "list" });
         }
     );
 
-    server.tool("nocodb-link-records",
+    tool("nocodb-link-records",
         "Nocodb - Link Records. Creates links between a record and one or more other records." +
         `\nExample:\n` +
         `link_records(table_name="projects", link_field_id="cl_abc456", record_id=10, links_to_add=[{"id": 25}, {"id": 30}])`,
@@ -168,7 +437,7 @@ export function registerNocoDbTools(server: McpServer) {
         }
     );
 
-    server.tool("nocodb-unlink-records",
+    tool("nocodb-unlink-records",
         "Nocodb - Unlink Records. Removes links between a record and one or more other records." +
         `\nExample:\n` +
         `unlink_records(table_name="projects", link_field_id="cl_abc456", record_id=10, links_to_remove=[{"id": 25}])`,
@@ -188,40 +457,239 @@ export function registerNocoDbTools(server: McpServer) {
         }
     );
 
-    // --- Attachment Tool ---
-    server.tool("nocodb-upload-attachment",
-        "Nocodb - Upload Attachment. Uploads a file from the MCP server's local filesystem to NocoDB storage." +
-        `\nExample:\n` +
-        `upload_attachment(file_path_on_server="/app/data/report.pdf", storage_path="reports/2025", file_name="Q1_Report.pdf", mime_type="application/pdf")`,
+    // --- Attachment Tools ---
+    tool("nocodb-upload-attachment",
+        "Nocodb - Upload Attachment. Uploads a file to NocoDB storage and returns the attachment objects to store in an Attachment column." +
+        `\nSend the file as exactly one of: 'base64' (inline content), 'resource' (an MCP embedded resource with a base64 'blob'), ` +
+        `'url' (NocoDB downloads it), or 'filePathOnServer' (only inside the server's attachment directory).` +
+        `\nTo put the file on a row directly, use 'nocodb-attach-file-to-record'.` +
+        `\nExamples:\n` +
+        `1. upload_attachment(base64="JVBERi0xLjQK...", file_name="Q1_Report.pdf", storage_path="reports/2025")\n` +
+        `2. upload_attachment(url="https://example.com/logo.png")`,
         {
-            filePathOnServer: z.string().describe("Absolute path to the file on the server running this MCP."),
-            storagePath: z.string().describe("Path within NocoDB storage (e.g., 'attachments/images')."),
-            fileName: z.string().describe("The desired file name for the attachment in NocoDB."),
-            mimeType: z.string().describe("MIME type of the file (e.g., 'image/jpeg', 'application/pdf').")
+            ...attachmentSourceShape,
+            storagePath: z.string().optional().describe("Path within NocoDB storage (e.g., 'attachments/images')."),
         },
         async (params) => {
-            const response = await NocoDB.uploadAttachment(params.filePathOnServer, params.storagePath, params.fileName, params.mimeType);
+            const { storagePath, ...source } = params;
+            const response = await NocoDB.uploadAttachmentFromSource(source, storagePath);
             return {
                 content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
             }
         }
     );
 
-    // --- Metadata and Schema Tools ---
-    server.tool("nocodb-get-list-tables",
-        "Nocodb - Get List Tables. Retrieves a list of all table names in the configured NocoDB base.",
-        {}, // No parameters
+    tool("nocodb-attach-file-to-record",
+        "Nocodb - Attach File To Record. Uploads a file and stores it in an Attachment column of a row, appended to the existing attachments or replacing them." +
+        `\nThe file is given the same way as in 'nocodb-upload-attachment'.` +
+        `\nExample: attach_file_to_record(table_name="invoices", record_id=12, column="Scans", url="https://example.com/invoice-12.pdf")`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            recordId: z.string().or(z.number()).describe("ID of the row to attach the file to."),
+            column: z.string().describe("Name of the Attachment column."),
+            mode: z.enum(["append", "replace"]).optional().describe("Keep the current attachments and add this one (default), or replace them all."),
+            ...attachmentSourceShape,
+            storagePath: z.string().optional().describe("Path within NocoDB storage."),
+        },
+        async (params) => {
+            const { tableName, recordId, column, mode, storagePath, ...source } = params;
+            const response = await NocoDB.attachFileToRecord(tableName, String(recordId), column, source, { mode, storagePath });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-get-attachment",
+        "Nocodb - Get Attachment. Downloads a file stored in an Attachment column and returns its content: images as image content, " +
+        "text formats (CSV, JSON, plain text) as text and other files (e.g. PDF) as a base64 embedded resource." +
+        `\nFiles over the server's attachment size limit, or over 'maxBytes', are refused.` +
+        `\nExample: get_attachment(table_name="invoices", record_id=12, column="Scans", attachment=0)`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            recordId: z.string().or(z.number()).describe("ID of the row."),
+            column: z.string().describe("Name of the Attachment column."),
+            attachment: z.number().int().nonnegative().or(z.string()).optional().describe("Index in the cell (default 0) or title of the attachment."),
+            maxBytes: z.number().int().positive().optional().describe("Refuse files larger than this."),
+        },
+        async (params) => {
+            const file = await NocoDB.downloadAttachment(params.tableName, String(params.recordId), params.column, params.attachment, params.maxBytes);
+            const uri = `nocodb://attachments/${[params.tableName, String(params.recordId), params.column, file.title].map(encodeURIComponent).join("/")}`;
+            return {
+                content: toAttachmentContent(file, uri),
+            }
+        }
+    );
+
+    // --- Import and Export Tools ---
+    tool("nocodb-import-data",
+        "Nocodb - Import Data. Inserts the rows of a CSV, JSON lines, JSON array or XLSX file into a table, in batches." +
+        `\nThe first CSV/XLSX row is the header. Headers are matched to column titles (exact, then ignoring case and spaces); ` +
+        `use 'columnMap' to map or skip headers. Headers matching the auto-increment Id or computed columns are skipped. With 'createTable', a missing table is created with column types inferred from the data.` +
+        `\nSend CSV/JSON as 'text', or the file as 'base64', 'resource' or 'filePathOnServer' (inside the server's attachment directory).` +
+        `\nRows are validated against the schema; rejected rows are listed with their 0-based row number and the reason. ` +
+        `If the import stops early ('maxRows' or cancellation), pass the returned 'nextRow' as 'startRow' to resume.` +
+        `\nExamples:\n` +
+        `1. import_data(table_name="contacts", text="Name,Email\\nAda,ada@example.com", format="csv")\n` +
+        `2. import_data(table_name="orders_2024", file_path_on_server="imports/orders.xlsx", sheet="2024", create_table=True)`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table to insert into."),
+            format: z.enum(["csv", "jsonl", "json", "xlsx"]).optional().describe("Data format; detected from the file name when omitted."),
+            text: z.string().optional().describe("Inline CSV, JSON lines or JSON array."),
+            base64: attachmentSourceShape.base64,
+            resource: attachmentSourceShape.resource,
+            filePathOnServer: attachmentSourceShape.filePathOnServer,
+            fileName: z.string().optional().describe("File name, used to detect the format."),
+            sheet: z.string().optional().describe("XLSX sheet to read (default: the first)."),
+            delimiter: z.string().length(1).optional().describe("CSV delimiter (default: detected from , ; or tab)."),
+            createTable: z.boolean().optional().describe("Create the table with inferred column types if it does not exist."),
+            columnMap: z.record(z.string().nullable()).optional().describe("Source header -> column title; null skips the header."),
+            batchSize: z.number().int().min(1).max(1000).optional().describe("Rows per insert request (default 100)."),
+            startRow: z.number().int().nonnegative().optional().describe("0-based data row to start at (to resume)."),
+            maxRows: z.number().int().positive().optional().describe("Import at most this many rows."),
+            validate: z.boolean().optional().describe("Check rows against the table schema before inserting (default true)."),
+        },
+        async (params, extra) => {
+            const { tableName, format, text, fileName, sheet, delimiter, ...rest } = params;
+            const { createTable, columnMap, batchSize, startRow, maxRows, validate, ...source } = rest;
+            let content: Buffer;
+            let name = fileName;
+            if (text !== undefined) {
+                if (Object.values(source).some(value => value !== undefined)) {
+                    throw new NocoDbApiError("validation", "Pass either 'text' or a file ('base64', 'resource' or 'filePathOnServer'), not both.");
+                }
+                content = Buffer.from(text, "utf8");
+            } else {
+                const file = await readAttachmentSource({ ...source, fileName: fileName ?? (source.base64 !== undefined ? "import" : undefined) });
+                content = file.content;
+                name = file.fileName;
+            }
+            const detected = format ?? detectImportFormat(name);
+            if (!detected) {
+                throw new NocoDbApiError("validation", "Cannot tell the data format from the file name; pass 'format' (csv, jsonl, json or xlsx).");
+            }
+            const dataset = parseDataset(content, detected, { delimiter, sheet });
+
+            const progressToken = extra._meta?.progressToken;
+            const response = await NocoDB.importData(tableName, dataset, {
+                createTable, columnMap, batchSize, startRow, maxRows, validate,
+                signal: extra.signal,
+                onBatch: progressToken === undefined ? undefined : async (progress) => {
+                    await extra.sendNotification({
+                        method: "notifications/progress",
+                        params: { progressToken, progress: progress.processed, total: progress.total },
+                    });
+                },
+            });
+            if (response.table.created) server.sendResourceListChanged();
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify({ format: detected, sheet: dataset.sheet, ...response }) }],
+            }
+        }
+    );
+
+    tool("nocodb-export-table",
+        "Nocodb - Export Table. Pages through a whole table or view and returns it as a CSV, JSON, JSON lines, Markdown or XLSX file." +
+        `\nThe file comes back as an embedded resource, or is saved in the server's export directory (NOCODB_EXPORT_DIR) with 'saveToServer'.` +
+        `\nExports stop at the server's pagination limits; if 'pageInfo.isComplete' is false, export the rest with 'offset' set to 'pageInfo.nextOffset'.` +
+        `\nExamples:\n` +
+        `1. export_table(table_name="orders", format="xlsx")\n` +
+        `2. export_table(table_name="orders", view="Open orders", format="csv", save_to_server=True, file_name="open-orders.csv")\n` +
+        FILTER_RULES_HINT,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            view: z.string().optional().describe("Name or ID of a view to export (its filters, sorts and visible fields apply)."),
+            filters: z.string().optional().describe("Filtering conditions using NocoDB's query language."),
+            filter: structuredFilterSchema.optional().describe(STRUCTURED_FILTER_DESCRIPTION),
+            sort: sortSchema.optional().describe("Sort order, same forms as in get-records."),
+            fields: fieldsSchema.optional().describe("Columns to export, in this order."),
+            format: z.enum(EXPORT_FORMATS).default("csv").describe("File format (default csv)."),
+            maxRecords: z.number().int().positive().optional().describe("Export at most this many records."),
+            offset: z.number().int().nonnegative().optional().describe("Number of records to skip, to continue an incomplete export."),
+            fileName: z.string().optional().describe("Name of the file (default: the table or view name with the format's extension)."),
+            saveToServer: z.boolean().optional().describe("Save the file in the server's export directory instead of returning it."),
+            overwrite: z.boolean().optional().describe("Replace an existing file of the same name when saving."),
+        },
+        async (params, extra) => {
+            const viewId = params.view ? await NocoDB.getViewId(params.tableName, params.view) : undefined;
+            const filters = await NocoDB.buildWhere(params.tableName, params.filters, params.filter);
+            const progressToken = extra._meta?.progressToken;
+            const response = await NocoDB.getAllRecords(params.tableName, filters, params.sort, params.fields, {
+                maxRecords: params.maxRecords,
+                startOffset: params.offset,
+                viewId,
+                signal: extra.signal,
+                onPage: progressToken === undefined ? undefined : async (page, progress) => {
+                    await extra.sendNotification({
+                        method: "notifications/progress",
+                        params: { progressToken, progress: progress.fetched, total: progress.total },
+                    });
+                },
+            });
+            const file = renderExport(response.output.list, params.format, {
+                fields: params.fields,
+                name: params.view ?? params.tableName,
+                fileName: params.fileName,
+            });
+            const summary = {
+                fileName: file.fileName,
+                mimeType: file.mimeType,
+                bytes: file.content.length,
+                records: response.output.list.length,
+                pageInfo: response.output.pageInfo,
+            };
+            if (params.saveToServer) {
+                const savedPath = await saveExport(file, params.overwrite);
+                return {
+                    content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify({ ...summary, path: savedPath }) }],
+                }
+            }
+            const uri = `nocodb://exports/${encodeURIComponent(file.fileName)}`;
+            return {
+                content: [
+                    { type: 'text', mimeType: 'application/json', text: JSON.stringify(summary) },
+                    params.format === "xlsx"
+                        ? { type: 'resource', resource: { uri, mimeType: file.mimeType, blob: file.content.toString("base64") } }
+                        : { type: 'resource', resource: { uri, mimeType: file.mimeType, text: file.content.toString("utf8") } },
+                ],
+            }
+        }
+    );
+
+    // --- Base Selection Tools ---
+    tool("nocodb-list-bases",
+        "Nocodb - List Bases. Lists the named NocoDB bases configured on this server and the base this session uses by default." +
+        `\nPass a name (or any base ID) as 'baseId' to another tool to run it against that base.`,
+        {},
         async () => {
-            const response = await NocoDB.getListTables();
+            const response = {
+                sessionDefault: sessionConfig.baseName ?? sessionConfig.baseId ?? NocoDbBaseId ?? null,
+                namedBases: Object.entries(NamedBases).map(([name, base]) => ({ name, baseId: base.baseId })),
+            };
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    // --- Metadata and Schema Tools ---
+    tool("nocodb-get-list-tables",
+        "Nocodb - Get List Tables. Retrieves a list of all table names in the configured NocoDB base." +
+        `\nWith detailed=true, returns each table's id, type (table or view), description and column count instead.`,
+        {
+            detailed: z.boolean().optional().describe("Return id, type, description and column count per table instead of titles only."),
+        },
+        async (params) => {
+            const response = await NocoDB.getListTables(params.detailed);
             return {
                 content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
             }
         }
     );
 
-    server.tool("nocodb-get-table-metadata",
+    tool("nocodb-get-table-metadata",
         "Nocodb - Get Table Metadata. Retrieves detailed metadata for a specific table, including column names, types, and IDs." +
-        `\nCRITICAL: Use this tool before 'nocodb-post-records' or 'nocodb-patch-records' to get the exact column names required.` +
+        `\nUse this tool to look up column names, types and select options before writing records.` +
         `\nExample: get_table_metadata(table_name="users")`,
         {
             tableName: z.string().describe("Name of the NocoDB table.")
@@ -234,51 +702,96 @@ export function registerNocoDbTools(server: McpServer) {
         }
     );
 
-    server.tool("nocodb-alter-table-add-column",
+    tool("nocodb-refresh-metadata-cache",
+        "Nocodb - Refresh Metadata Cache. Discards the cached table and column metadata for the base so the next call re-reads it from NocoDB." +
+        `\nUse this after tables or columns were changed outside this server (e.g. in the NocoDB UI).`,
+        {},
+        async () => {
+            const response = NocoDB.refreshMetadataCache();
+            // Tables may have been added or removed outside this server
+            server.sendResourceListChanged();
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-alter-table-add-column",
         "Nocodb - Alter Table Add Column. Adds a new column to an existing table." +
-        `\nSupported column types (uidt): SingleLineText, LongText, Number, Decimal, Date, DateTime, Time, Year, Duration, Currency, Percent, Rollup, Formula, LinkToAnotherRecord, LookUp, Checkbox, MultiSelect, SingleSelect, Collaborator, Attachment, Barcode, QRCode, CreatedTime, LastModifiedTime, AutoNumber, Url, Email, Phone, Formula, User, CreatedBy, LastModifiedBy, SpecificDBType` +
-        `\nIMPORTANT: For 'LinkToAnotherRecord', you MUST provide 'parentTableName' and 'relationType'.` +
+        `\nDescribe the column with 'type': an object whose 'uidt' selects the column type and its options:` +
+        `\n- Plain types (no options): ${SIMPLE_COLUMN_TYPES.join(", ")}` +
+        `\n- SingleSelect / MultiSelect: options=[{title, color}]` +
+        `\n- Formula: formula` +
+        `\n- Rollup: relationColumn, rollupColumn, rollupFunction` +
+        `\n- Lookup: relationColumn, lookupColumn` +
+        `\n- Currency: locale, currencyCode, precision; Decimal: precision; Rating: max; Date / DateTime: dateFormat, timeFormat` +
+        `\n- LinkToAnotherRecord / Links: parentTableName, relationType ('hm', 'bt' or 'mm')` +
+        `\n'columnType' (with 'parentTableName' and 'relationType' for links) is still accepted for types without other options.` +
         `\nExamples:\n` +
-        `1. Standard column: alter_table_add_column(table_name="products", column_name="StockCount", column_type="Number")\n` +
-        `2. Link column (HasMany): alter_table_add_column(table_name="authors", column_name="Books", column_type="LinkToAnotherRecord", parent_table_name="books", relation_type="hm")\n` +
-        `3. Link column (BelongsTo): alter_table_add_column(table_name="books", column_name="Author", column_type="LinkToAnotherRecord", parent_table_name="authors", relation_type="bt")`,
+        `1. Standard column: alter_table_add_column(table_name="products", column_name="StockCount", type={"uidt": "Number"}, default_value=0)\n` +
+        `2. Select column: alter_table_add_column(table_name="tasks", column_name="Status", type={"uidt": "SingleSelect", "options": [{"title": "Todo"}, {"title": "Done", "color": "#c2f5e8"}]})\n` +
+        `3. Currency: alter_table_add_column(table_name="orders", column_name="Total", type={"uidt": "Currency", "locale": "fr-FR", "currencyCode": "EUR"})\n` +
+        `4. Link column (HasMany): alter_table_add_column(table_name="authors", column_name="Books", type={"uidt": "LinkToAnotherRecord", "parentTableName": "books", "relationType": "hm"})\n` +
+        `5. Rollup: alter_table_add_column(table_name="authors", column_name="Pages", type={"uidt": "Rollup", "relationColumn": "Books", "rollupColumn": "PageCount", "rollupFunction": "sum"})`,
         {
             tableName: z.string().describe("Name of the NocoDB table where the column will be added."),
             columnName: z.string().describe("Name for the new column."),
-            columnType: z.string().describe("Type of the new column (NocoDB UIDT)."),
-            // Optional fields, but required if columnType is LinkToAnotherRecord
-            parentTableName: z.string().optional().describe("Required if columnType is 'LinkToAnotherRecord'. Name of the table this column links TO."),
-            relationType: z.enum(['hm', 'bt', 'mm']).optional().describe("Required if columnType is 'LinkToAnotherRecord'. Type of relationship: 'hm' (HasMany), 'bt' (BelongsTo), 'mm' (ManyToMany).")
+            type: columnTypeSchema.optional().describe("Column type (uidt) and its type-specific options."),
+            ...columnSettingsShape,
+            columnType: z.string().optional().describe("Shorthand for type={\"uidt\": columnType}."),
+            parentTableName: z.string().optional().describe("With columnType 'LinkToAnotherRecord': name of the table this column links TO."),
+            relationType: z.enum(['hm', 'bt', 'mm']).optional().describe("With columnType 'LinkToAnotherRecord': 'hm' (HasMany), 'bt' (BelongsTo) or 'mm' (ManyToMany).")
         },
         async (params) => {
-            let response;
-            if (params.columnType === 'LinkToAnotherRecord') {
-                // Validate required fields for LinkToAnotherRecord
-                if (!params.parentTableName || !params.relationType) {
-                    throw new Error("For 'LinkToAnotherRecord' column type, 'parentTableName' and 'relationType' parameters are required.");
+            const { tableName, columnName, type, columnType, parentTableName, relationType, ...settings } = params;
+            if (!type && !columnType) {
+                throw new NocoDbApiError("validation", "Pass the column type as 'type' (e.g. {\"uidt\": \"Number\"}) or 'columnType'.");
+            }
+            let definition = type;
+            if (!definition) {
+                // The shorthand goes through the same schema, so a missing option is reported the same way
+                const parsed = columnTypeSchema.safeParse({ uidt: columnType, parentTableName, relationType });
+                if (!parsed.success) {
+                    throw new NocoDbApiError("validation", `Invalid column type '${columnType}': ${parsed.error.issues.map(i => `${i.path.join(".") || "uidt"}: ${i.message}`).join("; ")}. Use 'type' for types with options.`);
                 }
-                // Resolve IDs
-                const childId = await NocoDB.getTableId(params.tableName); // ID of the table where column is added
-                const parentId = await NocoDB.getTableId(params.parentTableName); // ID of the table being linked to
-
-                const linkOptions = {
-                    parentId: parentId,
-                    childId: childId,
-                    relationType: params.relationType
-                };
-                response = await NocoDB.alterTableAddColumn(params.tableName, params.columnName, params.columnType, linkOptions);
+                definition = parsed.data;
+            }
+            const response = await NocoDB.alterTableAddColumn(tableName, columnName, definition, settings);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
 
-            } else {
-                // For other column types, call without link options
-                response = await NocoDB.alterTableAddColumn(params.tableName, params.columnName, params.columnType);
+    tool("nocodb-alter-table-update-column",
+        "Nocodb - Alter Table Update Column. Renames a column, changes its type or type options (select choices, formula, rollup, currency, ...), " +
+        "or its description, default value and required/unique flags. Settings that are not passed are kept." +
+        `\nWARNING: changing the type converts existing values and may lose data that does not fit the new type.` +
+        `\n'type' takes the same forms as in 'nocodb-alter-table-add-column'. Passing select options replaces the current list.` +
+        `\nExamples:\n` +
+        `1. Rename: alter_table_update_column(table_name="tasks", column_name="Stat", title="Status")\n` +
+        `2. Add a choice: alter_table_update_column(table_name="tasks", column_name="Status", type={"uidt": "SingleSelect", "options": [{"title": "Todo"}, {"title": "Doing"}, {"title": "Done"}]})\n` +
+        `3. Make required: alter_table_update_column(table_name="tasks", column_name="Title", required=true)`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            columnName: z.string().describe("Current name (or ID) of the column."),
+            title: z.string().min(1).optional().describe("New name for the column."),
+            type: columnTypeSchema.optional().describe("New type (uidt) and type-specific options."),
+            ...columnSettingsShape,
+        },
+        async (params) => {
+            const { tableName, columnName, ...changes } = params;
+            if (Object.values(changes).every(value => value === undefined)) {
+                throw new NocoDbApiError("validation", "Nothing to update: pass 'title', 'type', 'description', 'defaultValue', 'required' or 'unique'.");
             }
+            const response = await NocoDB.alterTableUpdateColumn(tableName, columnName, changes);
             return {
                 content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
             }
         }
     );
 
-    server.tool("nocodb-alter-table-remove-column",
+    tool("nocodb-alter-table-remove-column",
         "Nocodb - Alter Table Remove Column. Removes an existing column from a table." +
         `\nWARNING: This action is irreversible and will delete the column and all its data.` +
         `\nGet the 'columnId' from 'nocodb-get-table-metadata'.` +
@@ -295,7 +808,7 @@ export function registerNocoDbTools(server: McpServer) {
         }
     );
 
-    server.tool("nocodb-create-table",
+    tool("nocodb-create-table",
         "Nocodb - Create Table. Creates a new table with specified columns." +
         `\nAn 'Id' column (type: ID) will be added automatically if not provided.` +
         `\nSupported column types (uidt): See 'nocodb-alter-table-add-column'.` +
@@ -310,6 +823,361 @@ export function registerNocoDbTools(server: McpServer) {
         },
         async (params) => {
             const response = await NocoDB.createTable(params.tableName, params.data);
+            server.sendResourceListChanged(); // The new table shows up in nocodb://{base}/tables
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-update-table",
+        "Nocodb - Update Table. Renames a table, changes its description, or moves it within the base's table list." +
+        `\nExample: update_table(table_name="employees", title="staff", order=1)`,
+        {
+            tableName: z.string().describe("Current name of the NocoDB table."),
+            title: z.string().min(1).optional().describe("New name for the table."),
+            description: z.string().optional().describe("New description."),
+            order: z.number().optional().describe("New position in the table list."),
+        },
+        async (params) => {
+            const { tableName, title, description, order } = params;
+            if (title === undefined && description === undefined && order === undefined) {
+                throw new NocoDbApiError("validation", "Nothing to update: pass 'title', 'description' or 'order'.");
+            }
+            const response = await NocoDB.updateTable(tableName, { title, description, order });
+            server.sendResourceListChanged();
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-delete-table",
+        "Nocodb - Delete Table. Deletes a table with all its columns, records, views and webhooks." +
+        `\nWARNING: This action is irreversible.` +
+        `\nCall it first without 'confirmationToken' to see the row and column counts and receive a token valid for 5 minutes, ` +
+        `then call it again with that token to delete the table.`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table to delete."),
+            confirmationToken: z.string().optional().describe("Token returned by a previous call for this table."),
+        },
+        async (params) => {
+            const response = await NocoDB.deleteTable(params.tableName, params.confirmationToken);
+            if (params.confirmationToken !== undefined) server.sendResourceListChanged();
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-duplicate-table",
+        "Nocodb - Duplicate Table. Creates a copy of a table's columns (with select options, formulas and column settings), optionally with its records." +
+        `\nLink, Lookup and Rollup columns depend on other tables and are not copied; they are listed in 'skippedColumns'.` +
+        `\nExample: duplicate_table(table_name="orders", new_title="orders_2024", include_data=true)`,
+        {
+            tableName: z.string().describe("Name of the table to copy."),
+            newTitle: z.string().min(1).describe("Name of the new table."),
+            includeData: z.boolean().optional().describe("Also copy the records (default false: schema only)."),
+        },
+        async (params) => {
+            const response = await NocoDB.duplicateTable(params.tableName, params.newTitle, { includeData: params.includeData });
+            server.sendResourceListChanged();
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    // --- View Tools ---
+    tool("nocodb-list-views",
+        "Nocodb - List Views. Lists the views of a table (grid, form, gallery, kanban, ...) with their IDs." +
+        `\nPrefer querying through an existing view ('view' in 'nocodb-get-records') over rebuilding its filters.`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+        },
+        async (params) => {
+            const response = await NocoDB.listViews(params.tableName);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-get-view",
+        "Nocodb - Get View. Returns a view's filters, sorts and column visibility, with column names instead of IDs.",
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            view: z.string().describe("Name or ID of the view."),
+        },
+        async (params) => {
+            const response = await NocoDB.getView(params.tableName, params.view);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-create-view",
+        "Nocodb - Create View. Creates a grid, form, gallery or kanban view on a table, optionally copying another view's settings." +
+        `\nExample: create_view(table_name="orders", title="Open orders", type="grid")`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            title: z.string().describe("Name of the new view."),
+            type: z.enum(["grid", "form", "gallery", "kanban"]).default("grid").describe("Type of view."),
+            copyFrom: z.string().optional().describe("Name or ID of a view whose filters, sorts and columns are copied."),
+        },
+        async (params) => {
+            const response = await NocoDB.createView(params.tableName, params.title, params.type, params.copyFrom);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-update-view",
+        "Nocodb - Update View. Renames a view, changes its lock type, or shows/hides and reorders its columns." +
+        `\nExample: update_view(table_name="orders", view="Open orders", columns=[{"column": "Notes", "show": false}])`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            view: z.string().describe("Name or ID of the view."),
+            title: z.string().optional().describe("New name for the view."),
+            lockType: z.enum(["collaborative", "locked", "personal"]).optional(),
+            columns: z.array(z.object({
+                column: z.string().describe("Column name."),
+                show: z.boolean().optional().describe("Whether the column is visible in the view."),
+                order: z.number().optional().describe("Position of the column in the view."),
+            })).optional().describe("Column visibility/order changes."),
+        },
+        async (params) => {
+            const response = await NocoDB.updateView(params.tableName, params.view, {
+                title: params.title,
+                lockType: params.lockType,
+                columns: params.columns,
+            });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    const viewFilterShape = {
+        column: z.string().describe("Column name to filter on."),
+        op: z.string().describe("Comparison operator: eq, neq, like, nlike, gt, lt, gte, lte, blank, notblank, checked, notchecked, anyof, allof, nanyof, nallof, isWithin, ..."),
+        subOp: z.string().optional().describe("Sub-operator for date filters (e.g. today, oneWeekAgo, exactDate, pastNumberOfDays)."),
+        value: z.any().optional().describe("Value to compare against (omit for blank/checked style operators)."),
+        logicalOp: z.enum(["and", "or", "not"]).optional().describe("How this filter combines with the previous ones (default and)."),
+    };
+
+    tool("nocodb-add-view-filter",
+        "Nocodb - Add View Filter. Adds a filter to a view. Records returned through the view are filtered by it." +
+        `\nExample: add_view_filter(table_name="orders", view="Open orders", column="Status", op="eq", value="Open")`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            view: z.string().describe("Name or ID of the view."),
+            ...viewFilterShape,
+        },
+        async (params) => {
+            const response = await NocoDB.addViewFilter(params.tableName, params.view, {
+                column: params.column, op: params.op, subOp: params.subOp, value: params.value, logicalOp: params.logicalOp,
+            });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-update-view-filter",
+        "Nocodb - Update View Filter. Changes an existing view filter. Get filter IDs from 'nocodb-get-view'.",
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            filterId: z.string().describe("ID of the filter."),
+            column: viewFilterShape.column.optional(),
+            op: viewFilterShape.op.optional(),
+            subOp: viewFilterShape.subOp,
+            value: viewFilterShape.value,
+            logicalOp: viewFilterShape.logicalOp,
+        },
+        async (params) => {
+            const response = await NocoDB.updateViewFilter(params.tableName, params.filterId, {
+                column: params.column, op: params.op, subOp: params.subOp, value: params.value, logicalOp: params.logicalOp,
+            });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-delete-view-filter",
+        "Nocodb - Delete View Filter. Removes a filter from a view. Get filter IDs from 'nocodb-get-view'.",
+        {
+            filterId: z.string().describe("ID of the filter."),
+        },
+        async (params) => {
+            const response = await NocoDB.deleteViewFilter(params.filterId);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-add-view-sort",
+        "Nocodb - Add View Sort. Adds a sort to a view; sorts apply in the order they were added.",
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            view: z.string().describe("Name or ID of the view."),
+            column: z.string().describe("Column name to sort by."),
+            direction: z.enum(["asc", "desc"]).default("asc"),
+        },
+        async (params) => {
+            const response = await NocoDB.addViewSort(params.tableName, params.view, params.column, params.direction);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-delete-view-sort",
+        "Nocodb - Delete View Sort. Removes a sort from a view. Get sort IDs from 'nocodb-get-view'.",
+        {
+            sortId: z.string().describe("ID of the sort."),
+        },
+        async (params) => {
+            const response = await NocoDB.deleteViewSort(params.sortId);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    // --- Webhook Tools ---
+    const webhookOperation = z.enum(["insert", "update", "delete", "bulkInsert", "bulkUpdate", "bulkDelete"]);
+
+    tool("nocodb-list-webhooks",
+        "Nocodb - List Webhooks. Lists the webhooks (hooks) configured on a table, with their event, operation, URL and active state.",
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+        },
+        async (params) => {
+            const response = await NocoDB.listWebhooks(params.tableName);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-create-webhook",
+        "Nocodb - Create Webhook. Creates a URL webhook that NocoDB calls when records of a table change." +
+        `\nIf 'url' is omitted, the hook posts to this server's receiver (/webhooks/{receiverId}) with the shared secret, and deliveries can be read with 'nocodb-get-webhook-events'. This requires MCP_WEBHOOK_SECRET and MCP_PUBLIC_URL on the server.` +
+        `\nExample:\n` +
+        `create_webhook(table_name="orders", title="New orders", event="after", operation="insert")`,
+        {
+            tableName: z.string().describe("Name of the NocoDB table."),
+            title: z.string().describe("Name of the webhook."),
+            event: z.enum(["after", "before"]).default("after").describe("Fire before or after the operation."),
+            operation: webhookOperation.describe("Record operation that triggers the webhook."),
+            url: z.string().url().optional().describe("URL NocoDB should call. Defaults to this server's webhook receiver."),
+            receiverId: z.string().optional().describe("Receiver ID used in /webhooks/{receiverId} when 'url' is omitted (defaults to the table name)."),
+            method: z.enum(["POST", "PUT", "PATCH", "GET", "DELETE"]).optional().describe("HTTP method (default POST)."),
+            headers: z.record(z.string()).optional().describe("Extra HTTP headers to send."),
+            active: z.boolean().optional().describe("Whether the webhook is active (default true)."),
+        },
+        async (params) => {
+            let url = params.url;
+            let headers = params.headers;
+            if (!url) {
+                url = receiverUrlFor(params.receiverId ?? params.tableName);
+                if (!url) {
+                    throw new NocoDbApiError("validation", "Pass 'url', or configure MCP_WEBHOOK_SECRET and MCP_PUBLIC_URL so the webhook can target this server's receiver.");
+                }
+                headers = { ...headers, [WEBHOOK_SECRET_HEADER]: WebhookSecret! };
+            }
+            const response = await NocoDB.createWebhook(params.tableName, {
+                title: params.title,
+                event: params.event,
+                operation: params.operation,
+                url,
+                method: params.method,
+                headers,
+                active: params.active,
+            });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-update-webhook",
+        "Nocodb - Update Webhook. Changes a webhook's title, trigger, URL, method, headers or active state. Fields that are not passed keep their current value.",
+        {
+            tableName: z.string().describe("Name of the table the webhook belongs to."),
+            hookId: z.string().describe("ID of the webhook (see 'nocodb-list-webhooks')."),
+            title: z.string().optional(),
+            event: z.enum(["after", "before"]).optional(),
+            operation: webhookOperation.optional(),
+            url: z.string().url().optional(),
+            method: z.enum(["POST", "PUT", "PATCH", "GET", "DELETE"]).optional(),
+            headers: z.record(z.string()).optional().describe("Replaces the webhook's headers."),
+            active: z.boolean().optional().describe("Set false to pause the webhook."),
+        },
+        async (params) => {
+            const response = await NocoDB.updateWebhook(params.tableName, params.hookId, {
+                title: params.title,
+                event: params.event,
+                operation: params.operation,
+                url: params.url,
+                method: params.method,
+                headers: params.headers,
+                active: params.active,
+            });
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-delete-webhook",
+        "Nocodb - Delete Webhook. Permanently deletes a webhook.",
+        {
+            hookId: z.string().describe("ID of the webhook (see 'nocodb-list-webhooks')."),
+        },
+        async (params) => {
+            const response = await NocoDB.deleteWebhook(params.hookId);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-test-webhook",
+        "Nocodb - Test Webhook. Makes NocoDB call the webhook once with a sample payload for its operation.",
+        {
+            tableName: z.string().describe("Name of the table the webhook belongs to."),
+            hookId: z.string().describe("ID of the webhook (see 'nocodb-list-webhooks')."),
+        },
+        async (params) => {
+            const response = await NocoDB.testWebhook(params.tableName, params.hookId);
+            return {
+                content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
+            }
+        }
+    );
+
+    tool("nocodb-get-webhook-events",
+        "Nocodb - Get Webhook Events. Returns recent webhook deliveries received by this server (POST /webhooks/{receiverId}) for tables of the base, oldest first." +
+        `\nTo follow new events, pass the returned 'nextAfterId' as 'afterId' on the next call. Only a bounded number of recent events is kept.`,
+        {
+            tableName: z.string().optional().describe("Only events for this table."),
+            receiverId: z.string().optional().describe("Only events posted to /webhooks/{receiverId}."),
+            afterId: z.number().int().nonnegative().optional().describe("Only events with an ID greater than this (cursor)."),
+            limit: z.number().int().positive().max(500).optional().describe("Maximum number of events to return (default 50)."),
+        },
+        async (params) => {
+            const response = await NocoDB.getWebhookEvents({
+                tableName: params.tableName,
+                receiverId: params.receiverId,
+                afterId: params.afterId,
+                limit: params.limit ?? 50,
+            });
             return {
                 content: [{ type: 'text', mimeType: 'application/json', text: JSON.stringify(response) }],
             }
@@ -0,0 +1,127 @@
+import { createHash } from "node:crypto";
+import { numberFromEnv } from "./config.js";
+import { getNocoDbBaseId, getNocoDbClient } from "./nocodbContext.js";
+
+// --- Table/Column Metadata Cache ---
+// Table lists, per-table metadata and view lists are cached per base and token (NocoDB URL + base ID + token hash)
+// with a TTL, so a session only ever sees schema its own token could read, and so that
+// resolving table names no longer costs a GET /meta/bases/{base}/tables on every record operation.
+// Entries hold the in-flight promise, so concurrent lookups share a single request.
+
+interface CacheEntry<T> {
+    promise: Promise<T>;
+    expiresAt: number;
+}
+
+interface BaseMetadata {
+    tables?: CacheEntry<any[]>;
+    tableMetadata: Map<string, CacheEntry<any>>; // keyed by table ID
+    views: Map<string, CacheEntry<any[]>>; // keyed by table ID
+}
+
+export interface CachedColumn {
+    id: string;
+    title: string;
+    uidt: string;
+}
+
+export class MetadataCache {
+    private bases = new Map<string, BaseMetadata>();
+
+    constructor(private ttlMs: number) {
+    }
+
+    private getBase(baseKey: string): BaseMetadata {
+        let base = this.bases.get(baseKey);
+        if (!base) {
+            base = { tableMetadata: new Map(), views: new Map() };
+            this.bases.set(baseKey, base);
+        }
+        return base;
+    }
+
+    private resolve<T>(get: () => CacheEntry<T> | undefined, set: (entry: CacheEntry<T> | undefined) => void, load: () => Promise<T>): Promise<T> {
+        const entry = get();
+        if (entry && entry.expiresAt > Date.now()) {
+            return entry.promise;
+        }
+        const promise = load();
+        if (this.ttlMs > 0) {
+            const newEntry = { promise, expiresAt: Date.now() + this.ttlMs };
+            set(newEntry);
+            // Never cache failures
+            promise.catch(() => {
+                if (get() === newEntry) set(undefined);
+            });
+        }
+        return promise;
+    }
+
+    getTables(baseKey: string, load: () => Promise<any[]>): Promise<any[]> {
+        const base = this.getBase(baseKey);
+        return this.resolve(() => base.tables, entry => { base.tables = entry; }, load);
+    }
+
+    getTableMetadata(baseKey: string, tableId: string, load: () => Promise<any>): Promise<any> {
+        const base = this.getBase(baseKey);
+        return this.resolve(
+            () => base.tableMetadata.get(tableId),
+            entry => {
+                if (entry) base.tableMetadata.set(tableId, entry);
+                else base.tableMetadata.delete(tableId);
+            },
+            load
+        );
+    }
+
+    getViews(baseKey: string, tableId: string, load: () => Promise<any[]>): Promise<any[]> {
+        const base = this.getBase(baseKey);
+        return this.resolve(
+            () => base.views.get(tableId),
+            entry => {
+                if (entry) base.views.set(tableId, entry);
+                else base.views.delete(tableId);
+            },
+            load
+        );
+    }
+
+    invalidate(baseKey: string) {
+        if (this.bases.delete(baseKey)) {
+            console.log(`[MetadataCache] Invalidated metadata for ${baseKey}`);
+        }
+    }
+
+    // Schema changes affect every token's view of the base
+    invalidateBase(basePrefix: string) {
+        for (const baseKey of [...this.bases.keys()]) {
+            if (baseKey.startsWith(`${basePrefix}|`)) this.invalidate(baseKey);
+        }
+    }
+
+    describe(baseKey: string) {
+        const base = this.bases.get(baseKey);
+        return {
+            ttlMs: this.ttlMs,
+            tableListCached: !!base?.tables && base.tables.expiresAt > Date.now(),
+            tablesWithCachedMetadata: base ? base.tableMetadata.size : 0,
+        };
+    }
+}
+
+// 5 minutes, 0 disables caching
+export const metadataCache = new MetadataCache(numberFromEnv("NOCODB_METADATA_CACHE_TTL_MS", 300000));
+
+function currentBasePrefix(): string {
+    return `${getNocoDbClient().defaults.baseURL}|${getNocoDbBaseId()}`;
+}
+
+// Cache key for the base and token the current tool call is using; the token is only kept as a hash
+export function currentBaseKey(): string {
+    const token = String(getNocoDbClient().defaults.headers["xc-token"] ?? "");
+    return `${currentBasePrefix()}|${createHash("sha256").update(token).digest("hex").slice(0, 16)}`;
+}
+
+export function invalidateCurrentBaseMetadata() {
+    metadataCache.invalidateBase(currentBasePrefix());
+}
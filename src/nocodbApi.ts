@@ -1,19 +1,54 @@
-import axios from "axios";
-import fs from 'fs/promises';
+import axios, { AxiosInstance } from "axios";
+import { randomBytes } from "node:crypto";
 import FormData from 'form-data';
-import { nocodbClient, NocoDbBaseId } from "./config.js"; // Import client and Base ID
+import { getNocoDbBaseId, getNocoDbClient } from "./nocodbContext.js"; // Client and Base ID for the current session/tool call
+import { AttachmentHosts, MaxAttachmentBytes, MaxRecordsHardCap, MaxResponseBytes, PaginationPageSize } from "./config.js";
+import { isReadOnly, RecordValidationError, suggestClosest, validateRecordPayload, ValidationIssue } from "./recordValidation.js";
+import { NocoDbApiError, toNocoDbError } from "./errors.js";
+import { CachedColumn, currentBaseKey, invalidateCurrentBaseMetadata, metadataCache } from "./metadataCache.js";
+import { redactWebhookSecret, webhookEvents } from "./webhooks.js";
+import { compileStructuredFilter, FilterCondition, StructuredFilter } from "./filterBuilder.js";
+import { describeRequest, FieldsInput, recordQueryParams, SortInput } from "./queryParams.js";
+import { ColumnSettings, ColumnTypeDefinition, existingTypeOptions, ResolvedColumnRefs, toColumnPayload } from "./columnOptions.js";
+import {
+    AttachmentFile,
+    AttachmentSource,
+    attachmentSourceKind,
+    fileNameFromUri,
+    guessMimeType,
+    readAttachmentSource
+} from "./attachments.js";
+import { Dataset, inferColumnType, mapColumns } from "./dataImport.js";
+import {
+    AggregateSort,
+    AggregateTable,
+    aggregateRecords,
+    HavingCondition,
+    Metric,
+    metricAlias,
+    shapeAggregateTable
+} from "./aggregation.js";
+
+// --- Helper Function: List Tables (cached) ---
+// Raw table list for the current base, served from the metadata cache when fresh.
+const getCachedTableList = async (): Promise<any[]> => {
+    return metadataCache.getTables(currentBaseKey(), async () => {
+        console.log(`[getCachedTableList] Cache miss, fetching tables for base: ${getNocoDbBaseId()}`);
+        const response = await getNocoDbClient().get(`/api/v2/meta/bases/${getNocoDbBaseId()}/tables`);
+        return response.data.list || [];
+    });
+};
 
 // --- Helper Function: Get Table ID ---
 // This is used internally by many other functions, so keep it here.
 export const getTableId = async (tableName: string): Promise<string> => {
     console.log(`[getTableId] Resolving ID for table: ${tableName}`);
     try {
-        const response = await nocodbClient.get(`/api/v2/meta/bases/${NocoDbBaseId}/tables`);
-        const tables = response.data.list || [];
+        const tables = await getCachedTableList();
         const table = tables.find((t: any) => t.title === tableName);
         if (!table) {
-            console.error(`[getTableId] Table '${tableName}' not found in base ${NocoDbBaseId}`);
-            throw new Error(`Table '${tableName}' not found`);
+            console.error(`[getTableId] Table '${tableName}' not found in base ${getNocoDbBaseId()}`);
+            throw new NocoDbApiError("not_found", `Table '${tableName}' not found`);
         }
         console.log(`[getTableId] Resolved tableId: ${table.id} for tableName: ${tableName}`);
         return table.id;
@@ -23,7 +58,7 @@ export const getTableId = async (tableName: string): Promise<string> => {
         if (axios.isAxiosError(error)) {
              console.error(`[getTableId] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
         }
-        throw new Error(`Error retrieving table ID: ${error.message}`);
+        throw toNocoDbError(error, "Error retrieving table ID");
     }
 };
 
@@ -34,29 +69,23 @@ export async function getRecords(tableName: string,
                                  filters?: string,
                                  limit?: number,
                                  offset?: number,
-                                 sort?: string,
-                                 fields?: string,
+                                 sort?: SortInput,
+                                 fields?: FieldsInput,
+                                 viewId?: string, // Query through a view: its filters, sorts and hidden fields apply
 ) {
-    console.log(`[getRecords] Called for table: ${tableName}, Filters: ${filters}, Limit: ${limit}, Offset: ${offset}, Sort: ${sort}, Fields: ${fields}`);
+    console.log(`[getRecords] Called for table: ${tableName}, Filters: ${filters}, Limit: ${limit}, Offset: ${offset}, Sort: ${JSON.stringify(sort)}, Fields: ${JSON.stringify(fields)}, View: ${viewId}`);
     const tableId = await getTableId(tableName);
 
-    const paramsArray = []
-    if (filters) paramsArray.push(`where=${filters}`);
-    if (limit) paramsArray.push(`limit=${limit}`);
-    if (offset) paramsArray.push(`offset=${offset}`);
-    if (sort) paramsArray.push(`sort=${sort}`);
-    if (fields) paramsArray.push(`fields=${fields}`);
-
-    const queryString = paramsArray.length > 0 ? `?${paramsArray.join("&")}` : "";
-    const requestUrl = `/api/v2/tables/${tableId}/records${queryString}`;
-    console.log(`[getRecords] Requesting GET: ${nocodbClient.defaults.baseURL}${requestUrl}`);
+    const requestUrl = `/api/v2/tables/${tableId}/records`;
+    const params = recordQueryParams({ where: filters, limit, offset, sort, fields, viewId });
+    console.log(`[getRecords] Requesting GET: ${getNocoDbClient().defaults.baseURL}${describeRequest(requestUrl, params)}`);
 
     try {
-        const response = await nocodbClient.get(requestUrl);
+        const response = await getNocoDbClient().get(requestUrl, { params });
         console.log(`[getRecords] GET response status: ${response.status}`);
         // Return structure expected by the tool definition
         return {
-            input: { tableName, filters, limit, offset, sort, fields },
+            input: { tableName, filters, limit, offset, sort, fields, viewId },
             output: response.data
         };
     } catch (error: any) {
@@ -68,14 +97,128 @@ export async function getRecords(tableName: string,
     }
 }
 
-export async function postRecords(tableName: string, data: unknown) {
+// Options for following NocoDB pagination server-side
+export interface PaginationOptions {
+    maxRecords?: number; // Capped at NOCODB_MAX_RECORDS
+    maxBytes?: number; // Approximate JSON size budget, capped at NOCODB_MAX_RESPONSE_BYTES
+    startOffset?: number;
+    viewId?: string; // Page through a view instead of the whole table
+    signal?: AbortSignal; // Stops paging when the tool call is cancelled
+    onPage?: (page: any[], progress: { fetched: number; total?: number }) => Promise<void>;
+}
+
+export async function getAllRecords(tableName: string,
+                                    filters?: string,
+                                    sort?: SortInput,
+                                    fields?: FieldsInput,
+                                    options: PaginationOptions = {},
+) {
+    const maxRecords = Math.min(options.maxRecords ?? MaxRecordsHardCap, MaxRecordsHardCap);
+    const maxBytes = Math.min(options.maxBytes ?? MaxResponseBytes, MaxResponseBytes);
+    console.log(`[getAllRecords] Called for table: ${tableName}, Filters: ${filters}, Sort: ${JSON.stringify(sort)}, Fields: ${JSON.stringify(fields)}, maxRecords: ${maxRecords}, maxBytes: ${maxBytes}`);
+
+    const records: any[] = [];
+    let bytes = 0;
+    let offset = options.startOffset ?? 0;
+    let totalRows: number | undefined;
+    let stoppedReason: "complete" | "max_records" | "byte_budget" | "cancelled" = "complete";
+
+    while (true) {
+        if (options.signal?.aborted) {
+            stoppedReason = "cancelled";
+            break;
+        }
+        const limit = Math.min(PaginationPageSize, maxRecords - records.length);
+        const page = await getRecords(tableName, filters, limit, offset, sort, fields, options.viewId);
+        const list: any[] = page.output?.list || [];
+        const pageInfo = page.output?.pageInfo || {};
+        totalRows = pageInfo.totalRows ?? totalRows;
+
+        const accepted: any[] = [];
+        for (const record of list) {
+            const recordBytes = JSON.stringify(record).length;
+            if (bytes + recordBytes > maxBytes) {
+                stoppedReason = "byte_budget";
+                break;
+            }
+            bytes += recordBytes;
+            accepted.push(record);
+        }
+        records.push(...accepted);
+        offset += accepted.length;
+
+        if (options.onPage && accepted.length > 0) {
+            await options.onPage(accepted, { fetched: records.length, total: totalRows !== undefined ? Math.min(totalRows, maxRecords) : undefined });
+        }
+
+        if (stoppedReason !== "complete") break;
+        if (list.length === 0 || pageInfo.isLastPage) break;
+        if (records.length >= maxRecords) {
+            stoppedReason = "max_records";
+            break;
+        }
+    }
+
+    console.log(`[getAllRecords] Fetched ${records.length} records (${bytes} bytes), stopped: ${stoppedReason}`);
+    return {
+        input: { tableName, filters, sort, fields, viewId: options.viewId, maxRecords, maxBytes },
+        output: {
+            list: records,
+            pageInfo: {
+                totalRows,
+                fetched: records.length,
+                isComplete: stoppedReason === "complete",
+                stoppedReason,
+                nextOffset: stoppedReason === "complete" ? undefined : offset,
+            }
+        }
+    };
+}
+
+// Where string for a query: the raw 'filters' string, a structured filter compiled against the
+// table's columns, or both combined with ~and
+export async function buildWhere(tableName: string, filters?: string, filter?: StructuredFilter): Promise<string | undefined> {
+    if (!filter) return filters;
+    const columns = (await getTableColumns(tableName)).map(c => c.title);
+    const compiled = compileStructuredFilter(filter, columns);
+    console.log(`[buildWhere] Compiled structured filter for ${tableName}: ${compiled}`);
+    return filters ? `(${filters})~and(${compiled})` : compiled;
+}
+
+// Title of the table a LinkToAnotherRecord column points to
+export async function getLinkedTableName(tableName: string, linkFieldId: string): Promise<string> {
+    const metadata = await getTableMetadata(tableName);
+    const column = (metadata.columns || []).find((c: any) => c.id === linkFieldId);
+    const relatedId = column?.colOptions?.fk_related_model_id;
+    const related = relatedId ? (await getCachedTableList()).find((t: any) => t.id === relatedId) : undefined;
+    if (!related) {
+        throw new NocoDbApiError("not_found", `Link column '${linkFieldId}' not found in table '${tableName}' or its related table is unknown`);
+    }
+    return related.title;
+}
+
+// Validates (and coerces) a payload against the table's cached column metadata, throwing RecordValidationError with every issue found
+export async function validateRecords(tableName: string, data: unknown, mode: "create" | "update") {
+    const metadata = await getTableMetadata(tableName);
+    const result = validateRecordPayload(tableName, metadata.columns || [], data, mode);
+    if (result.issues.length > 0) {
+        console.error(`[validateRecords] ${result.issues.length} issue(s) for table ${tableName}: ${JSON.stringify(result.issues)}`);
+        throw new RecordValidationError(tableName, result.issues);
+    }
+    return result.records;
+}
+
+export async function postRecords(tableName: string, data: unknown, options: { validate?: boolean } = {}) {
     console.log(`[postRecords] Called for table: ${tableName} with data: ${JSON.stringify(data)}`);
     const tableId = await getTableId(tableName);
+    if (options.validate !== false) {
+        data = await validateRecords(tableName, data, "create");
+    }
     const requestUrl = `/api/v2/tables/${tableId}/records`;
-    console.log(`[postRecords] Requesting POST: ${nocodbClient.defaults.baseURL}${requestUrl}`);
+    console.log(`[postRecords] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
 
     try {
-        const response = await nocodbClient.post(requestUrl, data);
+        const response = await getNocoDbClient().post(requestUrl, data);
         console.log(`[postRecords] POST response status: ${response.status}`);
         // Return structure expected by the tool definition
         return {
@@ -91,15 +234,18 @@ export async function postRecords(tableName: string, data: unknown) {
     }
 }
 
-export async function patchRecords(tableName: string, rowId: number, data: any) {
+export async function patchRecords(tableName: string, rowId: number, data: any, options: { validate?: boolean } = {}) {
     console.log(`[patchRecords] Called for table: ${tableName}, rowId: ${rowId} with data: ${JSON.stringify(data)}`);
     const tableId = await getTableId(tableName);
+    if (options.validate !== false) {
+        data = await validateRecords(tableName, data, "update");
+    }
     const requestUrl = `/api/v2/tables/${tableId}/records`;
     const patchData = { ...data, id: rowId }; // Ensure lowercase 'id' is in the body
-    console.log(`[patchRecords] Requesting PATCH: ${nocodbClient.defaults.baseURL}${requestUrl} with data: ${JSON.stringify(patchData)}`);
+    console.log(`[patchRecords] Requesting PATCH: ${getNocoDbClient().defaults.baseURL}${requestUrl} with data: ${JSON.stringify(patchData)}`);
 
     try {
-        const response = await nocodbClient.patch(requestUrl, patchData);
+        const response = await getNocoDbClient().patch(requestUrl, patchData);
         console.log(`[patchRecords] PATCH response status: ${response.status}`);
         // Return structure expected by the tool definition
         return {
@@ -120,10 +266,10 @@ export async function deleteRecords(tableName: string, rowId: number) {
     const tableId = await getTableId(tableName);
     const requestUrl = `/api/v2/tables/${tableId}/records`;
     const data = { id: rowId }; // Ensure lowercase 'id' is in the body
-    console.log(`[deleteRecords] Requesting DELETE: ${nocodbClient.defaults.baseURL}${requestUrl} with data: ${JSON.stringify(data)}`);
+    console.log(`[deleteRecords] Requesting DELETE: ${getNocoDbClient().defaults.baseURL}${requestUrl} with data: ${JSON.stringify(data)}`);
 
     try {
-        const response = await nocodbClient.delete(requestUrl, { data }); // Pass ID in the data payload
+        const response = await getNocoDbClient().delete(requestUrl, { data }); // Pass ID in the data payload
         console.log(`[deleteRecords] DELETE response status: ${response.status}`);
         // Return structure expected by the tool definition (often just the ID or success status)
         return response.data;
@@ -136,17 +282,327 @@ export async function deleteRecords(tableName: string, rowId: number) {
     }
 }
 
-export async function getRecord(tableName: string, recordId: string, fields?: string) {
-    console.log(`[getRecord] Called for table: ${tableName}, recordId: ${recordId}, fields: ${fields}`);
+// --- Bulk Record Operations ---
+
+// Rows to act on: explicit IDs (with fields for patches) or a where filter in the filterRules syntax
+export interface BulkTarget {
+    records?: ({ id: number | string } & Record<string, unknown>)[];
+    where?: string;
+}
+
+export interface BulkOptions {
+    chunkSize?: number;
+    dryRun?: boolean;
+    maxRecords?: number; // Cap on rows matched by a where filter
+    validate?: boolean; // Check patched fields against the table schema (default true)
+}
+
+interface BulkChunkResult {
+    chunk: number;
+    ids: (number | string)[];
+    status: "ok" | "error";
+    error?: string;
+    output?: unknown;
+}
+
+// Title of the table's primary key column (NocoDB expects it as the key in bulk bodies), "Id" by default
+async function getPrimaryKeyTitle(tableName: string): Promise<string> {
+    const metadata = await getTableMetadata(tableName);
+    const pk = (metadata.columns || []).find((c: any) => c.pk);
+    return pk?.title || "Id";
+}
+
+// Resolves the IDs of every row matching a where filter by paging through the table
+async function resolveMatchingIds(tableName: string, where: string, pkTitle: string, maxRecords?: number): Promise<(number | string)[]> {
+    const matches = await getAllRecords(tableName, where, undefined, pkTitle, { maxRecords });
+    if (!matches.output.pageInfo.isComplete) {
+        throw new NocoDbApiError("validation", `Filter matches more rows than can be processed in one call (stopped after ${matches.output.pageInfo.fetched}: ${matches.output.pageInfo.stoppedReason}). Narrow the filter or raise maxRecords.`);
+    }
+    return matches.output.list.map((record: any) => record[pkTitle]);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+// Sends the bodies chunk by chunk, recording a result per chunk instead of aborting on the first failure
+async function runInChunks(bodies: Record<string, unknown>[], pkTitle: string, chunkSize: number, send: (chunk: Record<string, unknown>[]) => Promise<unknown>) {
+    const results: BulkChunkResult[] = [];
+    const chunks = chunk(bodies, chunkSize);
+    for (let i = 0; i < chunks.length; i++) {
+        const ids = chunks[i].map(body => body[pkTitle] as number | string);
+        try {
+            const output = await send(chunks[i]);
+            results.push({ chunk: i + 1, ids, status: "ok", output });
+        } catch (error: any) {
+            const detail = axios.isAxiosError(error) ? JSON.stringify(error.response?.data) : undefined;
+            results.push({ chunk: i + 1, ids, status: "error", error: detail ? `${error.message}: ${detail}` : error.message });
+        }
+    }
+    return {
+        chunks: results,
+        succeeded: results.filter(r => r.status === "ok").reduce((n, r) => n + r.ids.length, 0),
+        failed: results.filter(r => r.status === "error").reduce((n, r) => n + r.ids.length, 0),
+    };
+}
+
+export async function bulkPatchRecords(tableName: string, target: BulkTarget & { data?: Record<string, unknown> }, options: BulkOptions = {}) {
+    console.log(`[bulkPatchRecords] Called for table: ${tableName}, records: ${target.records?.length ?? 0}, where: ${target.where}, dryRun: ${options.dryRun}`);
+    const tableId = await getTableId(tableName);
+    const pkTitle = await getPrimaryKeyTitle(tableName);
+    const requestUrl = `/api/v2/tables/${tableId}/records`;
+
+    let bodies: Record<string, unknown>[];
+    if (target.records && target.records.length > 0) {
+        const ids = target.records.map(record => record.id);
+        let fields: Record<string, unknown>[] = target.records.map(({ id, ...fields }) => fields);
+        if (options.validate !== false) {
+            fields = await validateRecords(tableName, fields, "update");
+        }
+        bodies = fields.map((values, i) => ({ ...values, [pkTitle]: ids[i] }));
+    } else if (target.where) {
+        if (!target.data || Object.keys(target.data).length === 0) {
+            throw new NocoDbApiError("validation", "'data' is required when patching by 'where' filter.");
+        }
+        // Checked before the matching rows are resolved, so a dry run reports the same issues
+        const data = options.validate !== false ? await validateRecords(tableName, target.data, "update") : target.data;
+        const ids = await resolveMatchingIds(tableName, target.where, pkTitle, options.maxRecords);
+        bodies = ids.map(id => ({ ...data, [pkTitle]: id }));
+    } else {
+        throw new NocoDbApiError("validation", "Provide either 'records' (array of {id, ...fields}) or a 'where' filter.");
+    }
+
+    const input = { tableName, where: target.where, recordCount: target.records?.length, data: target.data, ...options };
+    const affectedIds = bodies.map(body => body[pkTitle]);
+    if (options.dryRun) {
+        console.log(`[bulkPatchRecords] Dry run: ${affectedIds.length} record(s) would be updated.`);
+        return { input, output: { dryRun: true, matched: affectedIds.length, affectedIds } };
+    }
+
+    console.log(`[bulkPatchRecords] Requesting PATCH: ${getNocoDbClient().defaults.baseURL}${requestUrl} for ${bodies.length} record(s)`);
+    const result = await runInChunks(bodies, pkTitle, options.chunkSize ?? 100, async chunk => {
+        const response = await getNocoDbClient().patch(requestUrl, chunk);
+        console.log(`[bulkPatchRecords] PATCH chunk response status: ${response.status}`);
+        return response.data;
+    });
+    return { input, output: { dryRun: false, matched: affectedIds.length, ...result } };
+}
+
+export async function bulkDeleteRecords(tableName: string, target: BulkTarget, options: BulkOptions = {}) {
+    console.log(`[bulkDeleteRecords] Called for table: ${tableName}, records: ${target.records?.length ?? 0}, where: ${target.where}, dryRun: ${options.dryRun}`);
     const tableId = await getTableId(tableName);
-    let requestUrl = `/api/v2/tables/${tableId}/records/${recordId}`;
-    if (fields) {
-        requestUrl += `?fields=${fields}`;
+    const pkTitle = await getPrimaryKeyTitle(tableName);
+    const requestUrl = `/api/v2/tables/${tableId}/records`;
+
+    let ids: (number | string)[];
+    if (target.records && target.records.length > 0) {
+        ids = target.records.map(record => record.id);
+    } else if (target.where && target.where.trim()) {
+        ids = await resolveMatchingIds(tableName, target.where, pkTitle, options.maxRecords);
+    } else {
+        throw new NocoDbApiError("validation", "Provide either 'records' (array of {id}) or a non-empty 'where' filter.");
+    }
+
+    const input = { tableName, where: target.where, recordCount: target.records?.length, ...options };
+    if (options.dryRun) {
+        console.log(`[bulkDeleteRecords] Dry run: ${ids.length} record(s) would be deleted.`);
+        return { input, output: { dryRun: true, matched: ids.length, affectedIds: ids } };
+    }
+
+    console.log(`[bulkDeleteRecords] Requesting DELETE: ${getNocoDbClient().defaults.baseURL}${requestUrl} for ${ids.length} record(s)`);
+    const result = await runInChunks(ids.map(id => ({ [pkTitle]: id })), pkTitle, options.chunkSize ?? 100, async chunk => {
+        const response = await getNocoDbClient().delete(requestUrl, { data: chunk });
+        console.log(`[bulkDeleteRecords] DELETE chunk response status: ${response.status}`);
+        return response.data;
+    });
+    return { input, output: { dryRun: false, matched: ids.length, ...result } };
+}
+
+// --- Upsert ---
+
+export type UpsertOutcome = "created" | "updated" | "unchanged" | "error";
+
+interface UpsertRowResult {
+    index: number;
+    key: Record<string, unknown>;
+    outcome: UpsertOutcome;
+    id?: number | string;
+    error?: string;
+}
+
+// Values are compared loosely (NocoDB returns numbers/booleans/dates in its own formats)
+const normalizeValue = (value: unknown) =>
+    value === undefined || value === null ? null : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+// Inserts rows whose key fields match no existing record and updates the ones that do.
+// Existing rows are looked up in batches with an OR of (key,eq,value) groups.
+export async function upsertRecords(tableName: string, keyFields: string[], rows: Record<string, unknown>[], options: { batchSize?: number; validate?: boolean } = {}) {
+    console.log(`[upsertRecords] Called for table: ${tableName}, keyFields: ${keyFields.join(",")}, rows: ${rows.length}`);
+    const tableId = await getTableId(tableName);
+    const pkTitle = await getPrimaryKeyTitle(tableName);
+    const columns = (await getTableMetadata(tableName)).columns || [];
+    const requestUrl = `/api/v2/tables/${tableId}/records`;
+    const batchSize = options.batchSize ?? 50;
+
+    // Rows that do not fit the schema get an error outcome; the rest are coerced before keys are compared
+    const invalid = new Map<number, string[]>();
+    const addIssues = (issues: ValidationIssue[], rowIndex: (row: number) => number) =>
+        issues.forEach(issue => invalid.set(rowIndex(issue.row), [...(invalid.get(rowIndex(issue.row)) || []), issue.message]));
+    if (options.validate !== false) {
+        const result = validateRecordPayload(tableName, columns, rows, "update");
+        addIssues(result.issues, row => row);
+        rows = result.records as Record<string, unknown>[];
+    }
+
+    const keyOf = (row: Record<string, unknown>) => JSON.stringify(keyFields.map(field => normalizeValue(row[field])));
+    const keyObject = (row: Record<string, unknown>) => Object.fromEntries(keyFields.map(field => [field, row[field]]));
+
+    const results: UpsertRowResult[] = rows.map((row, index) => ({ index, key: keyObject(row), outcome: "error" as UpsertOutcome }));
+    const seenKeys = new Set<string>();
+    const candidates: number[] = [];
+    const keyWheres = new Map<number, string>(); // Each candidate's own lookup filter
+    const columnTitles = columns.map((c: any) => c.title);
+    rows.forEach((row, index) => {
+        if (invalid.has(index)) {
+            results[index].error = invalid.get(index)!.join(" ");
+            return;
+        }
+        const missing = keyFields.filter(field => row[field] === undefined || row[field] === null || row[field] === "");
+        if (missing.length > 0) {
+            results[index].error = `Missing key field(s): ${missing.join(", ")}`;
+            return;
+        }
+        const conditions: FilterCondition[] = [];
+        for (const field of keyFields) {
+            const value = row[field];
+            if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+                results[index].error = `Key field '${field}' must be a text, number or boolean value to be looked up.`;
+                return;
+            }
+            conditions.push({ field, op: "eq", value });
+        }
+        try {
+            // Checked row by row, so a key NocoDB's filter syntax cannot express only fails its own row
+            keyWheres.set(index, compileStructuredFilter({ and: conditions }, columnTitles));
+        } catch (error: any) {
+            results[index].error = error.message;
+            return;
+        }
+        const key = keyOf(row);
+        if (seenKeys.has(key)) {
+            results[index].error = "Duplicate key in input; only the first row with this key is applied.";
+            return;
+        }
+        seenKeys.add(key);
+        candidates.push(index);
+    });
+
+    // Look up existing rows for the candidate keys, batch by batch; nothing is written unless every lookup is complete
+    const existingByKey = new Map<string, any[]>();
+    const unpairable = new Set<number>(); // Rows NocoDB may have matched in a form the local comparison does not recognise
+    for (const batch of chunk(candidates, batchSize)) {
+        const where = batch.map(index => keyWheres.get(index)).join("~or");
+        const matches = await getAllRecords(tableName, where);
+        if (!matches.output.pageInfo.isComplete) {
+            throw new NocoDbApiError("validation", `Looking up existing rows stopped after ${matches.output.pageInfo.fetched} records (${matches.output.pageInfo.stoppedReason}), so some keys could not be checked. Nothing was written; pass a smaller batchSize.`);
+        }
+        const batchKeys = new Set(batch.map(index => keyOf(rows[index])));
+        let strays = 0;
+        for (const record of matches.output.list) {
+            const key = keyOf(record);
+            if (!batchKeys.has(key)) strays++;
+            existingByKey.set(key, [...(existingByKey.get(key) || []), record]);
+        }
+        if (strays === 0) continue;
+        // NocoDB matched records whose key values differ from every row here (case, number format, dates...):
+        // ask again row by row, so a row is not created next to the record it actually matches
+        for (const index of batch.filter(index => !existingByKey.has(keyOf(rows[index])))) {
+            const own = await getRecords(tableName, keyWheres.get(index), 1, undefined, undefined, [pkTitle]);
+            if ((own.output?.list || []).length > 0) unpairable.add(index);
+        }
+    }
+
+    let creates: number[] = [];
+    const updates: { index: number; body: Record<string, unknown> }[] = [];
+    for (const index of candidates) {
+        const row = rows[index];
+        const existing = existingByKey.get(keyOf(row)) || [];
+        if (unpairable.has(index)) {
+            results[index].error = "NocoDB matched an existing record whose key values are written differently (e.g. case or number format); it is neither updated nor duplicated. Use the stored key values.";
+        } else if (existing.length > 1) {
+            results[index].error = `Key matches ${existing.length} existing records; key fields must be unique.`;
+        } else if (existing.length === 1) {
+            const record = existing[0];
+            results[index].id = record[pkTitle];
+            const changed = Object.keys(row).some(field => normalizeValue(row[field]) !== normalizeValue(record[field]));
+            if (changed) {
+                updates.push({ index, body: { ...row, [pkTitle]: record[pkTitle] } });
+            } else {
+                results[index].outcome = "unchanged";
+            }
+        } else {
+            creates.push(index);
+        }
+    }
+    if (options.validate !== false && creates.length > 0) {
+        // Required columns only matter for rows that will be created
+        const result = validateRecordPayload(tableName, columns, creates.map(index => rows[index]), "create");
+        const createIndexes = creates;
+        addIssues(result.issues, row => createIndexes[row]);
+        creates.filter(index => invalid.has(index)).forEach(index => { results[index].error = invalid.get(index)!.join(" "); });
+        creates = creates.filter(index => !invalid.has(index));
+    }
+    console.log(`[upsertRecords] ${creates.length} to create, ${updates.length} to update.`);
+
+    for (const batch of chunk(creates, batchSize)) {
+        try {
+            const response = await getNocoDbClient().post(requestUrl, batch.map(index => rows[index]));
+            console.log(`[upsertRecords] POST response status: ${response.status}`);
+            const created: any[] = Array.isArray(response.data) ? response.data : [response.data];
+            batch.forEach((index, i) => {
+                results[index].outcome = "created";
+                results[index].id = created[i]?.[pkTitle] ?? created[i]?.id;
+            });
+        } catch (error: any) {
+            console.error(`[upsertRecords] POST request failed: ${error.message}`);
+            const detail = axios.isAxiosError(error) ? JSON.stringify(error.response?.data) : undefined;
+            batch.forEach(index => { results[index].error = detail ? `${error.message}: ${detail}` : error.message; });
+        }
+    }
+
+    for (const batch of chunk(updates, batchSize)) {
+        try {
+            const response = await getNocoDbClient().patch(requestUrl, batch.map(update => update.body));
+            console.log(`[upsertRecords] PATCH response status: ${response.status}`);
+            batch.forEach(update => { results[update.index].outcome = "updated"; });
+        } catch (error: any) {
+            console.error(`[upsertRecords] PATCH request failed: ${error.message}`);
+            const detail = axios.isAxiosError(error) ? JSON.stringify(error.response?.data) : undefined;
+            batch.forEach(update => { results[update.index].error = detail ? `${error.message}: ${detail}` : error.message; });
+        }
     }
-    console.log(`[getRecord] Requesting GET: ${nocodbClient.defaults.baseURL}${requestUrl}`);
+
+    const summary = { created: 0, updated: 0, unchanged: 0, error: 0 };
+    results.forEach(result => { summary[result.outcome]++; });
+    return {
+        input: { tableName, keyFields, rowCount: rows.length },
+        output: { summary, rows: results }
+    };
+}
+
+export async function getRecord(tableName: string, recordId: string, fields?: FieldsInput) {
+    console.log(`[getRecord] Called for table: ${tableName}, recordId: ${recordId}, fields: ${JSON.stringify(fields)}`);
+    const tableId = await getTableId(tableName);
+    const requestUrl = `/api/v2/tables/${tableId}/records/${encodeURIComponent(recordId)}`;
+    const params = recordQueryParams({ fields });
+    console.log(`[getRecord] Requesting GET: ${getNocoDbClient().defaults.baseURL}${describeRequest(requestUrl, params)}`);
 
     try {
-        const response = await nocodbClient.get(requestUrl);
+        const response = await getNocoDbClient().get(requestUrl, { params });
         console.log(`[getRecord] GET response status: ${response.status}`);
         return response.data;
     } catch (error: any) {
@@ -161,17 +617,12 @@ export async function getRecord(tableName: string, recordId: string, fields?: st
 export async function countRecords(tableName: string, filters?: string, viewId?: string) {
     console.log(`[countRecords] Called for table: ${tableName}, filters: ${filters}, viewId: ${viewId}`);
     const tableId = await getTableId(tableName);
-    let requestUrl = `/api/v2/tables/${tableId}/records/count`;
-    const params = [];
-    if (filters) params.push(`where=${filters}`);
-    if (viewId) params.push(`viewId=${viewId}`);
-    if (params.length > 0) {
-        requestUrl += `?${params.join('&')}`;
-    }
-    console.log(`[countRecords] Requesting GET: ${nocodbClient.defaults.baseURL}${requestUrl}`);
+    const requestUrl = `/api/v2/tables/${tableId}/records/count`;
+    const params = recordQueryParams({ where: filters, viewId });
+    console.log(`[countRecords] Requesting GET: ${getNocoDbClient().defaults.baseURL}${describeRequest(requestUrl, params)}`);
 
     try {
-        const response = await nocodbClient.get(requestUrl);
+        const response = await getNocoDbClient().get(requestUrl, { params });
         console.log(`[countRecords] GET response status: ${response.status}`);
         return response.data; // NocoDB returns { count: number }
     } catch (error: any) {
@@ -183,6 +634,273 @@ export async function countRecords(tableName: string, filters?: string, viewId?:
     }
 }
 
+// --- Import ---
+export interface ImportOptions {
+    createTable?: boolean;                    // Create the table with inferred column types when it does not exist
+    columnMap?: Record<string, string | null>; // Source header -> column title (null skips the header)
+    batchSize?: number;
+    startRow?: number;                        // 0-based data row to start at, to resume an earlier import
+    maxRows?: number;
+    validate?: boolean;
+    signal?: AbortSignal;
+    onBatch?: (progress: { processed: number; total: number }) => Promise<void>;
+}
+
+interface ImportRowError {
+    row: number; // 0-based data row (header excluded), usable as startRow
+    error: string;
+    issues?: unknown[];
+}
+
+const MAX_REPORTED_IMPORT_ERRORS = 100;
+
+// Only a 400/422 means NocoDB refused the rows; anything else leaves it unknown whether they were stored
+function isRowRejection(error: unknown): boolean {
+    return axios.isAxiosError(error) && (error.response?.status === 400 || error.response?.status === 422);
+}
+
+export async function importData(tableName: string, dataset: Dataset, options: ImportOptions = {}) {
+    try {
+        const startRow = options.startRow ?? 0;
+        const endRow = Math.min(dataset.rows.length, options.maxRows !== undefined ? startRow + options.maxRows : dataset.rows.length);
+        const batchSize = options.batchSize ?? 100;
+        console.log(`[importData] Called for table: ${tableName}, rows: ${dataset.rows.length}, range: ${startRow}-${endRow}, createTable: ${options.createTable}`);
+
+        // Create the table from the headers when needed
+        let inferredColumns: { title: string; uidt: string }[] | undefined;
+        const exists = (await getCachedTableList()).some((t: any) => t.title === tableName);
+        if (!exists) {
+            if (!options.createTable) {
+                throw new NocoDbApiError("not_found", `Table '${tableName}' not found. Pass createTable: true to create it from the data.`);
+            }
+            inferredColumns = dataset.headers
+                .filter(header => options.columnMap?.[header] !== null)
+                .map(header => {
+                    const title = options.columnMap?.[header] ?? header;
+                    const uidt = title.toLowerCase() === "id" ? "ID" : inferColumnType(dataset.rows.map(row => row[header]));
+                    return { title, uidt };
+                });
+            await createTable(tableName, [...inferredColumns]);
+        }
+
+        const metadata = await getTableMetadata(tableName);
+        const columns: any[] = metadata.columns || [];
+        const { mapping, unmapped } = mapColumns(dataset.headers, columns.map(c => c.title), options.columnMap,
+            columns.filter(isReadOnly).map(c => c.title));
+        if (Object.keys(mapping).length === 0) {
+            throw new NocoDbApiError("validation", `None of the headers (${dataset.headers.join(", ")}) match a column of '${tableName}'. Use columnMap to map them.`);
+        }
+
+        const errors: ImportRowError[] = [];
+        let failed = 0;
+        const fail = (error: ImportRowError) => {
+            failed++;
+            if (errors.length < MAX_REPORTED_IMPORT_ERRORS) errors.push(error);
+        };
+
+        const tableId = await getTableId(tableName);
+        const requestUrl = `/api/v2/tables/${tableId}/records`;
+        let requestFailure: { rows: { from: number; to: number }; error: string } | undefined;
+        let inserted = 0;
+        let row = startRow;
+        while (row < endRow) {
+            if (options.signal?.aborted) break;
+            const batchStart = row;
+            const batchEnd = Math.min(endRow, row + batchSize);
+            // Blank cells are left out so column defaults apply
+            let bodies = dataset.rows.slice(batchStart, batchEnd).map(source => Object.fromEntries(
+                Object.entries(mapping)
+                    .filter(([header]) => source[header] !== null && source[header] !== undefined && source[header] !== "")
+                    .map(([header, column]) => [column, source[header]])
+            ));
+            let rowNumbers = bodies.map((_, i) => batchStart + i);
+
+            if (options.validate !== false) {
+                const result = validateRecordPayload(tableName, metadata.columns || [], bodies, "create");
+                const invalid = new Map<number, any[]>();
+                result.issues.forEach(issue => invalid.set(issue.row, [...(invalid.get(issue.row) || []), { ...issue, row: rowNumbers[issue.row] }]));
+                invalid.forEach((issues, i) => fail({ row: rowNumbers[i], error: issues.map(issue => issue.message).join(" "), issues }));
+                const coerced = result.records as Record<string, unknown>[];
+                rowNumbers = rowNumbers.filter((_, i) => !invalid.has(i));
+                bodies = coerced.filter((_, i) => !invalid.has(i));
+            }
+
+            if (bodies.length > 0) {
+                try {
+                    await getNocoDbClient().post(requestUrl, bodies);
+                    inserted += bodies.length;
+                } catch (batchError: any) {
+                    if (!isRowRejection(batchError)) {
+                        // Timeouts, network errors and 5xx may have committed the batch: stop rather than insert it twice
+                        requestFailure = { rows: { from: batchStart, to: batchEnd }, error: toNocoDbError(batchError).message };
+                        break;
+                    }
+                    // NocoDB rejected the batch: insert it row by row to find out which rows it refuses
+                    console.warn(`[importData] Batch ${batchStart}-${batchEnd} rejected (${batchError.message}), retrying row by row`);
+                    for (let i = 0; i < bodies.length; i++) {
+                        try {
+                            await getNocoDbClient().post(requestUrl, bodies[i]);
+                            inserted++;
+                        } catch (rowError: any) {
+                            if (!isRowRejection(rowError)) {
+                                requestFailure = { rows: { from: rowNumbers[i], to: rowNumbers[i] + 1 }, error: toNocoDbError(rowError).message };
+                                break;
+                            }
+                            fail({ row: rowNumbers[i], error: toNocoDbError(rowError).message });
+                        }
+                    }
+                    if (requestFailure) break;
+                }
+            }
+            row = batchEnd;
+            console.log(`[importData] Processed rows ${batchStart}-${batchEnd}: ${inserted} inserted, ${failed} failed so far`);
+            await options.onBatch?.({ processed: row - startRow, total: endRow - startRow });
+        }
+        if (requestFailure) {
+            row = requestFailure.rows.from;
+            console.error(`[importData] Stopped at row ${row}: ${requestFailure.error}`);
+        }
+
+        const isComplete = row >= dataset.rows.length;
+        return {
+            table: { id: tableId, title: tableName, created: !exists },
+            inferredColumns,
+            mapping,
+            unmappedHeaders: unmapped,
+            totalRows: dataset.rows.length,
+            processedRows: { from: startRow, to: row },
+            inserted,
+            failed,
+            errors,
+            errorsTruncated: failed > errors.length,
+            isComplete,
+            nextRow: isComplete ? undefined : row,
+            stoppedReason: isComplete ? "complete" : requestFailure ? "request_failed" : options.signal?.aborted ? "cancelled" : "max_rows",
+            // The rows may or may not have been stored: check them before resuming from nextRow
+            requestFailure,
+        };
+    } catch (error: any) {
+        console.error(`[importData] Failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[importData] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error importing data");
+    }
+}
+
+// --- Aggregation ---
+
+export interface AggregateOptions {
+    where?: string;
+    having?: HavingCondition[];
+    sort?: AggregateSort[];
+    limit?: number; // Maximum number of groups returned
+    viewId?: string;
+    signal?: AbortSignal;
+}
+
+// NocoDB URLs whose groupby endpoint is missing, so it is not tried on every call
+const groupByUnsupported = new Set<string>();
+
+// Row counts per group computed by NocoDB itself. Returns undefined when the endpoint is unavailable
+// or the answer is incomplete, so the caller falls back to paging.
+async function countGroupsOnServer(tableId: string, groupBy: string[], metrics: Metric[], where?: string): Promise<AggregateTable | undefined> {
+    const client = getNocoDbClient();
+    const baseURL = client.defaults.baseURL ?? "";
+    if (groupByUnsupported.has(baseURL)) return undefined;
+
+    const requestUrl = `/api/v2/tables/${tableId}/groupby`;
+    const params = { column_name: groupBy.join(","), limit: 1000, where: where || undefined };
+    console.log(`[aggregate] Requesting GET: ${baseURL}${describeRequest(requestUrl, params)}`);
+    try {
+        const response = await client.get(requestUrl, { params });
+        const list = response.data?.list;
+        if (!Array.isArray(list) || response.data?.pageInfo?.isLastPage === false || list.some((row: any) => isNaN(Number(row?.count)))) {
+            console.log("[aggregate] Groupby response incomplete or unrecognised, paging instead");
+            return undefined;
+        }
+        return {
+            columns: [...groupBy, ...metrics.map(metricAlias)],
+            rows: list.map((row: any) => [...groupBy.map(column => row[column] ?? null), ...metrics.map(() => Number(row.count))]),
+        };
+    } catch (error: any) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        // Only a missing route means the server has no groupby; a 400 may be this query (e.g. several
+        // group columns on an older NocoDB), so the next call tries the endpoint again
+        if (status === 404) {
+            console.log("[aggregate] Groupby endpoint not available (404), paging instead");
+            groupByUnsupported.add(baseURL);
+            return undefined;
+        }
+        if (status === 400) {
+            console.log(`[aggregate] Groupby rejected this query (400: ${JSON.stringify(error.response?.data)}), paging instead`);
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+export async function aggregate(tableName: string, groupBy: string[], metrics: Metric[], options: AggregateOptions = {}) {
+    console.log(`[aggregate] Called for table: ${tableName}, groupBy: ${groupBy.join(",")}, metrics: ${JSON.stringify(metrics)}, where: ${options.where}`);
+    try {
+        // Check every column name up front so a typo fails fast instead of after paging the table
+        const titles = (await getTableColumns(tableName)).map(c => c.title);
+        for (const field of [...groupBy, ...metrics.map(m => m.field).filter((f): f is string => !!f)]) {
+            if (!titles.includes(field)) {
+                const suggestion = suggestClosest(field, titles);
+                throw new NocoDbApiError("validation", `Column '${field}' does not exist in table '${tableName}'${suggestion ? ` (did you mean '${suggestion}'?)` : ""}`);
+            }
+        }
+        const missingField = metrics.find(m => m.op !== "count" && !m.field);
+        if (missingField) {
+            throw new NocoDbApiError("validation", `Metric '${missingField.op}' needs a 'field'.`);
+        }
+        const outputColumns = [...groupBy, ...metrics.map(metricAlias)];
+        for (const column of [...(options.having || []), ...(options.sort || [])].map(c => c.column)) {
+            if (!outputColumns.includes(column)) {
+                throw new NocoDbApiError("validation", `Unknown column '${column}' in having/sort. Use a group-by column or a metric alias: ${outputColumns.join(", ")}`);
+            }
+        }
+
+        const tableId = await getTableId(tableName);
+        let table: AggregateTable | undefined;
+        let scan: Record<string, unknown> = {};
+
+        // Plain row counts per group can be computed by NocoDB without paging
+        if (groupBy.length > 0 && !options.viewId && metrics.every(m => m.op === "count" && !m.field)) {
+            table = await countGroupsOnServer(tableId, groupBy, metrics, options.where);
+            if (table) scan = { source: "nocodb-groupby", isComplete: true };
+        }
+        if (!table) {
+            const fields = [...new Set([...groupBy, ...metrics.map(m => m.field).filter((f): f is string => !!f)])];
+            const page = await getAllRecords(tableName, options.where, undefined, fields.length > 0 ? fields : undefined, {
+                viewId: options.viewId,
+                signal: options.signal,
+            });
+            table = aggregateRecords(page.output.list, groupBy, metrics);
+            scan = {
+                source: "paged",
+                scannedRecords: page.output.pageInfo.fetched,
+                isComplete: page.output.pageInfo.isComplete,
+                stoppedReason: page.output.pageInfo.stoppedReason,
+            };
+        }
+
+        const shaped = shapeAggregateTable(table, options.having, options.sort, options.limit);
+        console.log(`[aggregate] ${table.rows.length} groups (${shaped.rows.length} returned), source: ${scan.source}`);
+        return {
+            input: { tableName, groupBy, metrics, where: options.where, having: options.having, sort: options.sort, limit: options.limit },
+            output: { ...shaped, totalGroups: table.rows.length, ...scan },
+        };
+    } catch (error: any) {
+        console.error(`[aggregate] Failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[aggregate] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error aggregating records");
+    }
+}
+
 // --- Linked Record Operations ---
 
 export async function getLinkedRecords(
@@ -190,8 +908,8 @@ export async function getLinkedRecords(
     linkFieldId: string,
     recordId: string,
     options?: {
-        fields?: string;
-        sort?: string;
+        fields?: FieldsInput;
+        sort?: SortInput;
         filters?: string;
         limit?: number;
         offset?: number;
@@ -199,20 +917,12 @@ export async function getLinkedRecords(
 ) {
     console.log(`[getLinkedRecords] Called for table: ${tableName}, linkFieldId: ${linkFieldId}, recordId: ${recordId}`);
     const tableId = await getTableId(tableName);
-    let requestUrl = `/api/v2/tables/${tableId}/links/${linkFieldId}/records/${recordId}`;
-    const params = [];
-    if (options?.fields) params.push(`fields=${options.fields}`);
-    if (options?.sort) params.push(`sort=${options.sort}`);
-    if (options?.filters) params.push(`where=${options.filters}`);
-    if (options?.limit) params.push(`limit=${options.limit}`);
-    if (options?.offset) params.push(`offset=${options.offset}`);
-    if (params.length > 0) {
-        requestUrl += `?${params.join('&')}`;
-    }
-    console.log(`[getLinkedRecords] Requesting GET: ${nocodbClient.defaults.baseURL}${requestUrl}`);
+    const requestUrl = `/api/v2/tables/${tableId}/links/${encodeURIComponent(linkFieldId)}/records/${encodeURIComponent(recordId)}`;
+    const params = recordQueryParams({ where: options?.filters, limit: options?.limit, offset: options?.offset, sort: options?.sort, fields: options?.fields });
+    console.log(`[getLinkedRecords] Requesting GET: ${getNocoDbClient().defaults.baseURL}${describeRequest(requestUrl, params)}`);
 
     try {
-        const response = await nocodbClient.get(requestUrl);
+        const response = await getNocoDbClient().get(requestUrl, { params });
         console.log(`[getLinkedRecords] GET response status: ${response.status}`);
         return response.data;
     } catch (error: any) {
@@ -228,11 +938,11 @@ export async function linkRecords(tableName: string, linkFieldId: string, record
     console.log(`[linkRecords] Called for table: ${tableName}, linkFieldId: ${linkFieldId}, recordId: ${recordId}`);
     const tableId = await getTableId(tableName);
     const requestUrl = `/api/v2/tables/${tableId}/links/${linkFieldId}/records/${recordId}`;
-    console.log(`[linkRecords] Requesting POST: ${nocodbClient.defaults.baseURL}${requestUrl} with data: ${JSON.stringify(linksToAdd)}`);
+    console.log(`[linkRecords] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl} with data: ${JSON.stringify(linksToAdd)}`);
 
     try {
         // NocoDB expects an array of objects like [{id: linkedRecordId1}, {id: linkedRecordId2}]
-        const response = await nocodbClient.post(requestUrl, linksToAdd);
+        const response = await getNocoDbClient().post(requestUrl, linksToAdd);
         console.log(`[linkRecords] POST response status: ${response.status}`);
         return response.data;
     } catch (error: any) {
@@ -248,12 +958,12 @@ export async function unlinkRecords(tableName: string, linkFieldId: string, reco
     console.log(`[unlinkRecords] Called for table: ${tableName}, linkFieldId: ${linkFieldId}, recordId: ${recordId}`);
     const tableId = await getTableId(tableName);
     const requestUrl = `/api/v2/tables/${tableId}/links/${linkFieldId}/records/${recordId}`;
-    console.log(`[unlinkRecords] Requesting DELETE: ${nocodbClient.defaults.baseURL}${requestUrl} with data: ${JSON.stringify(linksToRemove)}`);
+    console.log(`[unlinkRecords] Requesting DELETE: ${getNocoDbClient().defaults.baseURL}${requestUrl} with data: ${JSON.stringify(linksToRemove)}`);
 
     try {
         // NocoDB expects the IDs to remove in the data payload for DELETE on links
         // It expects an array of objects like [{id: linkedRecordId1}, {id: linkedRecordId2}]
-        const response = await nocodbClient.delete(requestUrl, { data: linksToRemove });
+        const response = await getNocoDbClient().delete(requestUrl, { data: linksToRemove });
         console.log(`[unlinkRecords] DELETE response status: ${response.status}`);
         return response.data;
     } catch (error: any) {
@@ -267,31 +977,24 @@ export async function unlinkRecords(tableName: string, linkFieldId: string, reco
 
 // --- Attachment Operations ---
 
-export async function uploadAttachment(filePathOnServer: string, storagePath: string, fileName: string, mimeType: string) {
-    console.log(`[uploadAttachment] Called with filePath: ${filePathOnServer}, storagePath: ${storagePath}, fileName: ${fileName}, mimeType: ${mimeType}`);
-    let fileContent: Buffer;
-    try {
-        fileContent = await fs.readFile(filePathOnServer);
-        console.log(`[uploadAttachment] Read file ${filePathOnServer} successfully (${fileContent.length} bytes).`);
-    } catch (readError: any) {
-        console.error(`[uploadAttachment] Failed to read file: ${readError.message}`);
-        throw new Error(`Failed to read file from path: ${filePathOnServer}. Error: ${readError.message}`);
-    }
-
+// Multipart upload to NocoDB storage; NocoDB returns an array with attachment details
+async function postAttachmentFile(file: AttachmentFile, storagePath?: string) {
     const formData = new FormData();
-    formData.append('file', fileContent, { filename: fileName, contentType: mimeType });
+    formData.append('file', file.content, { filename: file.fileName, contentType: file.mimeType });
 
-    const requestUrl = `/api/v2/storage/upload?path=${encodeURIComponent(storagePath)}`;
-    console.log(`[uploadAttachment] Requesting POST: ${nocodbClient.defaults.baseURL}${requestUrl}`);
+    const requestUrl = `/api/v2/storage/upload`;
+    const params = { path: storagePath || undefined };
+    console.log(`[uploadAttachment] Requesting POST: ${getNocoDbClient().defaults.baseURL}${describeRequest(requestUrl, params)} (${file.fileName}, ${file.content.length} bytes)`);
 
     try {
-        const response = await nocodbClient.post(requestUrl, formData, {
+        const response = await getNocoDbClient().post(requestUrl, formData, {
+            params,
             headers: {
                 ...formData.getHeaders(), // Let form-data set Content-Type and boundary
             }
         });
         console.log(`[uploadAttachment] POST response status: ${response.status}`);
-        return response.data; // NocoDB returns an array with attachment details
+        return response.data;
     } catch (error: any) {
         console.error(`[uploadAttachment] POST request failed: ${error.message}`);
         if (axios.isAxiosError(error)) {
@@ -301,118 +1004,368 @@ export async function uploadAttachment(filePathOnServer: string, storagePath: st
     }
 }
 
+// filePathOnServer must be inside NOCODB_ATTACHMENT_DIR
+export async function uploadAttachment(filePathOnServer: string, storagePath: string, fileName: string, mimeType: string) {
+    console.log(`[uploadAttachment] Called with filePath: ${filePathOnServer}, storagePath: ${storagePath}, fileName: ${fileName}, mimeType: ${mimeType}`);
+    return uploadAttachmentFromSource({ filePathOnServer, fileName, mimeType }, storagePath);
+}
+
+// NocoDB downloads the file itself, so it never passes through this server
+export async function uploadAttachmentByUrl(url: string, storagePath?: string, fileName?: string, mimeType?: string) {
+    console.log(`[uploadAttachmentByUrl] Called with url: ${url}, storagePath: ${storagePath}`);
+    if (!/^https?:\/\//i.test(url)) {
+        throw new NocoDbApiError("validation", `Only http(s) URLs can be uploaded, got '${url}'.`);
+    }
+    const requestUrl = `/api/v2/storage/upload-by-url`;
+    const params = { path: storagePath || undefined };
+    const name = fileName ?? fileNameFromUri(url);
+    const payload = [{ url, fileName: name, mimetype: mimeType ?? (name ? guessMimeType(name) : undefined) }];
+    console.log(`[uploadAttachmentByUrl] Requesting POST: ${getNocoDbClient().defaults.baseURL}${describeRequest(requestUrl, params)}`);
+
+    try {
+        const response = await getNocoDbClient().post(requestUrl, payload, { params });
+        console.log(`[uploadAttachmentByUrl] POST response status: ${response.status}`);
+        return response.data;
+    } catch (error: any) {
+        console.error(`[uploadAttachmentByUrl] POST request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[uploadAttachmentByUrl] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error uploading attachment from URL");
+    }
+}
+
+export async function uploadAttachmentFromSource(source: AttachmentSource, storagePath?: string) {
+    if (attachmentSourceKind(source) === "url") {
+        return uploadAttachmentByUrl(source.url!, storagePath, source.fileName, source.mimeType);
+    }
+    return postAttachmentFile(await readAttachmentSource(source), storagePath);
+}
+
+// Attachment cells are arrays, but older NocoDB versions return them as JSON strings
+function parseAttachmentCell(value: unknown): any[] {
+    if (Array.isArray(value)) return value;
+    if (typeof value === "string" && value.trim() !== "") {
+        try {
+            const parsed = JSON.parse(value);
+            return Array.isArray(parsed) ? parsed : [];
+        } catch {
+            return [];
+        }
+    }
+    return [];
+}
+
+// Title of an Attachment column of the table, with a suggestion when it does not exist
+async function getAttachmentColumn(tableName: string, columnName: string): Promise<string> {
+    const columns = await getTableColumns(tableName);
+    const column = columns.find(c => c.title === columnName || c.id === columnName);
+    if (!column) {
+        const suggestion = suggestClosest(columnName, columns.filter(c => c.uidt === "Attachment").map(c => c.title));
+        throw new NocoDbApiError("not_found", `Column '${columnName}' not found in table '${tableName}'${suggestion ? ` (did you mean '${suggestion}'?)` : ""}`);
+    }
+    if (column.uidt !== "Attachment") {
+        throw new NocoDbApiError("validation", `Column '${column.title}' is a ${column.uidt} column, not an Attachment column.`);
+    }
+    return column.title;
+}
+
+export async function attachFileToRecord(tableName: string, recordId: string, columnName: string, source: AttachmentSource,
+                                         options: { mode?: "append" | "replace"; storagePath?: string } = {}) {
+    const mode = options.mode ?? "append";
+    console.log(`[attachFileToRecord] Called for table: ${tableName}, recordId: ${recordId}, column: ${columnName}, mode: ${mode}`);
+    const column = await getAttachmentColumn(tableName, columnName);
+    // Read the row first so a wrong ID fails before anything is uploaded
+    const existing = parseAttachmentCell((await getRecord(tableName, recordId, [column]))?.[column]);
+    const uploaded = await uploadAttachmentFromSource(source, options.storagePath);
+    const attachments = mode === "append" ? [...existing, ...uploaded] : uploaded;
+
+    const tableId = await getTableId(tableName);
+    const pkTitle = await getPrimaryKeyTitle(tableName);
+    const requestUrl = `/api/v2/tables/${tableId}/records`;
+    console.log(`[attachFileToRecord] Requesting PATCH: ${getNocoDbClient().defaults.baseURL}${requestUrl} with ${attachments.length} attachment(s)`);
+    try {
+        const response = await getNocoDbClient().patch(requestUrl, { [pkTitle]: recordId, [column]: attachments });
+        console.log(`[attachFileToRecord] PATCH response status: ${response.status}`);
+        return { record: response.data, column, mode, uploaded, attachmentCount: attachments.length };
+    } catch (error: any) {
+        console.error(`[attachFileToRecord] PATCH request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[attachFileToRecord] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error attaching file to record");
+    }
+}
+
+// Which client may fetch an absolute attachment URL: the NocoDB origin gets the NocoDB client, a host listed in
+// NOCODB_ATTACHMENT_HOSTS a plain request without the token. Anything else is refused, since cell JSON is
+// client-writable and would otherwise let a caller make this server fetch internal addresses.
+function attachmentFetcher(url: string): AxiosInstance | typeof axios | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return undefined;
+    if (parsed.origin === new URL(getNocoDbClient().defaults.baseURL!).origin) return getNocoDbClient();
+    return AttachmentHosts.includes(parsed.hostname.toLowerCase()) ? axios : undefined;
+}
+
+// Where an attachment's bytes can be fetched: storage paths through NocoDB first, absolute URLs only on allowed hosts
+function attachmentLocation(attachment: any): { client: AxiosInstance | typeof axios; url: string } | undefined {
+    const relative = attachment.signedPath ?? attachment.path;
+    if (typeof relative === "string" && relative !== "") return { client: getNocoDbClient(), url: `/${relative.replace(/^\/+/, "")}` };
+    for (const absolute of [attachment.signedUrl, attachment.url]) {
+        const client = typeof absolute === "string" ? attachmentFetcher(absolute) : undefined;
+        if (client) return { client, url: absolute };
+    }
+    return undefined;
+}
+
+// Downloads one attachment of a row. 'which' is an index into the cell or an attachment title.
+export async function downloadAttachment(tableName: string, recordId: string, columnName: string, which: number | string = 0,
+                                         maxBytes: number = MaxAttachmentBytes) {
+    console.log(`[downloadAttachment] Called for table: ${tableName}, recordId: ${recordId}, column: ${columnName}, attachment: ${which}`);
+    const limit = Math.min(maxBytes, MaxAttachmentBytes);
+    const column = await getAttachmentColumn(tableName, columnName);
+    const attachments = parseAttachmentCell((await getRecord(tableName, recordId, [column]))?.[column]);
+    const index = typeof which === "number" ? which : attachments.findIndex(a => a.title === which);
+    const attachment = attachments[index];
+    if (!attachment) {
+        const available = attachments.map((a, i) => `${i}: ${a.title}`).join(", ");
+        throw new NocoDbApiError("not_found", `Attachment '${which}' not found in '${column}' of record ${recordId}. ${available ? `Available: ${available}` : "The cell is empty."}`);
+    }
+    if (typeof attachment.size === "number" && attachment.size > limit) {
+        throw new NocoDbApiError("validation", `Attachment '${attachment.title}' is ${attachment.size} bytes, over the ${limit}-byte limit.`);
+    }
+    const location = attachmentLocation(attachment);
+    if (!location) {
+        throw new NocoDbApiError("not_found", `Attachment '${attachment.title}' has no storage path, and its URL is not on NocoDB or a host in NOCODB_ATTACHMENT_HOSTS.`);
+    }
+
+    console.log(`[downloadAttachment] Requesting GET: ${location.url.startsWith("/") ? getNocoDbClient().defaults.baseURL : ""}${location.url.split("?")[0]}`);
+    try {
+        // Redirects are not followed blindly: NocoDB may send S3-style storage to a signed URL, which must pass the same host check
+        const options = { responseType: "arraybuffer" as const, maxContentLength: limit, timeout: 60000, maxRedirects: 0, validateStatus: (status: number) => status < 400 };
+        let response = await location.client.get(location.url, options);
+        if (response.status >= 300) {
+            const requested = location.url.startsWith("/") ? `${getNocoDbClient().defaults.baseURL}${location.url}` : location.url;
+            const target = response.headers["location"] ? new URL(String(response.headers["location"]), requested).toString() : undefined;
+            const client = target ? attachmentFetcher(target) : undefined;
+            if (!target || !client) {
+                throw new NocoDbApiError("validation", `Attachment '${attachment.title}' redirects to a host that is not allowed; add it to NOCODB_ATTACHMENT_HOSTS.`);
+            }
+            response = await client.get(target, { ...options, validateStatus: (status: number) => status < 300 });
+        }
+        console.log(`[downloadAttachment] GET response status: ${response.status}`);
+        const content = Buffer.from(response.data);
+        const headerType = String(response.headers["content-type"] ?? "").split(";")[0].trim();
+        return {
+            index,
+            title: attachment.title as string,
+            mimeType: attachment.mimetype || headerType || guessMimeType(attachment.title ?? ""),
+            size: content.length,
+            content,
+        };
+    } catch (error: any) {
+        console.error(`[downloadAttachment] GET request failed: ${error.message}`);
+        if (axios.isAxiosError(error) && error.message.includes("maxContentLength")) {
+            throw new NocoDbApiError("validation", `Attachment '${attachment.title}' is larger than the ${limit}-byte limit.`);
+        }
+        if (axios.isAxiosError(error)) {
+            console.error(`[downloadAttachment] Status: ${error.response?.status}`);
+        }
+        throw toNocoDbError(error, "Error downloading attachment");
+    }
+}
+
 // --- Metadata and Schema Operations ---
 
-export async function getListTables() {
-    console.log(`[getListTables] Called for base: ${NocoDbBaseId}`);
-    const requestUrl = `/api/v2/meta/bases/${NocoDbBaseId}/tables`;
-    console.log(`[getListTables] Requesting GET: ${nocodbClient.defaults.baseURL}${requestUrl}`);
+export async function getListTables(): Promise<string[]>;
+export async function getListTables(detailed: true): Promise<TableSummary[]>;
+export async function getListTables(detailed?: boolean): Promise<string[] | TableSummary[]>;
+export async function getListTables(detailed = false) {
+    console.log(`[getListTables] Called for base: ${getNocoDbBaseId()}, detailed: ${detailed}`);
     try {
-        const response = await nocodbClient.get(requestUrl);
-        const tables = response.data.list || [];
-        console.log(`[getListTables] GET response status: ${response.status}, Found ${tables.length} tables.`);
-        return tables.map((t: any) => t.title); // Return only titles as per original logic
+        const tables = await getCachedTableList();
+        console.log(`[getListTables] Found ${tables.length} tables.`);
+        if (!detailed) {
+            return tables.map((t: any) => t.title); // Return only titles as per original logic
+        }
+        // Column counts come from each table's (cached) metadata, fetched a few tables at a time
+        const summaries: TableSummary[] = [];
+        for (const batch of chunk(tables, TABLE_METADATA_CONCURRENCY)) {
+            const metadata = await Promise.all(batch.map((t: any) => getTableMetadata(t.title)));
+            batch.forEach((t: any, i) => summaries.push({
+                id: t.id,
+                title: t.title,
+                type: t.type === "view" ? "view" : "table",
+                description: t.description ?? t.meta?.description ?? null,
+                columnCount: (metadata[i].columns || []).length,
+            }));
+        }
+        return summaries;
     } catch (error: any) {
         console.error(`[getListTables] GET request failed: ${error.message}`);
         if (axios.isAxiosError(error)) {
             console.error(`[getListTables] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
         }
-        throw new Error(`Error getting list of tables: ${error.message}`);
+        throw toNocoDbError(error, "Error getting list of tables");
     }
 }
 
+export interface TableSummary {
+    id: string;
+    title: string;
+    type: "table" | "view"; // "view" for SQL views exposed as tables
+    description: string | null;
+    columnCount: number;
+}
+
+// Metadata requests in flight at once when listing tables with details
+const TABLE_METADATA_CONCURRENCY = 5;
+
 export async function getTableMetadata(tableName: string) {
     console.log(`[getTableMetadata] Called for table: ${tableName}`);
     const tableId = await getTableId(tableName);
     const requestUrl = `/api/v2/meta/tables/${tableId}`;
-    console.log(`[getTableMetadata] Requesting GET: ${nocodbClient.defaults.baseURL}${requestUrl}`);
     try {
-        const response = await nocodbClient.get(requestUrl);
-        console.log(`[getTableMetadata] GET response status: ${response.status}`);
-        return response.data;
+        return await metadataCache.getTableMetadata(currentBaseKey(), tableId, async () => {
+            console.log(`[getTableMetadata] Cache miss, requesting GET: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+            const response = await getNocoDbClient().get(requestUrl);
+            console.log(`[getTableMetadata] GET response status: ${response.status}`);
+            return response.data;
+        });
     } catch (error: any) {
         console.error(`[getTableMetadata] GET request failed: ${error.message}`);
         if (axios.isAxiosError(error)) {
             console.error(`[getTableMetadata] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
         }
-        throw new Error(`Error getting table metadata: ${error.message}`);
+        throw toNocoDbError(error, "Error getting table metadata");
     }
 }
 
-// Define options specific to LinkToAnotherRecord
-interface LinkColumnOptions {
-    parentId: string; // ID of the related table
-    childId: string; // ID of the current table (where the column is added)
-    relationType: 'hm' | 'bt' | 'mm'; // NocoDB relation types: HasMany, BelongsTo, ManyToMany
+// Column title -> id/uidt for a table, derived from the cached table metadata
+export async function getTableColumns(tableName: string): Promise<CachedColumn[]> {
+    const metadata = await getTableMetadata(tableName);
+    return (metadata.columns || []).map((c: any) => ({ id: c.id, title: c.title, uidt: c.uidt }));
+}
+
+// Drops cached table/column metadata for the current base so the next lookup hits NocoDB
+export function refreshMetadataCache() {
+    const baseKey = currentBaseKey();
+    metadataCache.invalidate(baseKey);
+    return { baseId: getNocoDbBaseId(), ...metadataCache.describe(baseKey) };
+}
+
+// Column IDs a definition refers to by title (link target table, rollup/lookup columns)
+async function resolveColumnRefs(tableName: string, type: ColumnTypeDefinition): Promise<ResolvedColumnRefs> {
+    switch (type.uidt) {
+        case "LinkToAnotherRecord":
+        case "Links":
+            return { tableId: await getTableId(tableName), parentId: await getTableId(type.parentTableName) };
+        case "Rollup":
+        case "Lookup": {
+            const relationColumnId = await getColumnId(tableName, type.relationColumn);
+            const linkedTable = await getLinkedTableName(tableName, relationColumnId);
+            const target = type.uidt === "Rollup" ? type.rollupColumn : type.lookupColumn;
+            return { relationColumnId, targetColumnId: await getColumnId(linkedTable, target) };
+        }
+        default:
+            return {};
+    }
 }
 
 export async function alterTableAddColumn(
     tableName: string,
     columnName: string,
-    columnType: string,
-    options?: LinkColumnOptions // Optional parameters for link types
+    type: ColumnTypeDefinition,
+    settings: ColumnSettings = {}
 ) {
-    console.log(`[alterTableAddColumn] Called for table: ${tableName}, columnName: ${columnName}, columnType: ${columnType}, options: ${JSON.stringify(options)}`);
-    const tableId = await getTableId(tableName); // This is the childId for links
+    console.log(`[alterTableAddColumn] Called for table: ${tableName}, columnName: ${columnName}, type: ${JSON.stringify(type)}, settings: ${JSON.stringify(settings)}`);
+    const tableId = await getTableId(tableName);
     const requestUrl = `/api/v2/meta/tables/${tableId}/columns`;
+    const payload = { title: columnName, ...toColumnPayload(type, settings, await resolveColumnRefs(tableName, type)) };
 
-    let payload: any;
-
-    if (columnType === 'LinkToAnotherRecord') {
-        if (!options) {
-            throw new Error("Missing required options (parentId, relationType) for LinkToAnotherRecord column type.");
-        }
-        // Construct payload specific to LinkToAnotherRecord
-        // Assuming NocoDB API field names based on common patterns and the error message
-        payload = {
-            title: columnName,
-            uidt: columnType,
-            parentId: options.parentId, // Use the literal 'parentId' field name as indicated by the error message
-            childId: options.childId, // Explicitly add childId to the payload
-            // fk_child_column_id, fk_parent_column_id might be handled by NocoDB or needed for specific cases (null for now)
-            fk_child_column_id: null,
-            fk_parent_column_id: null,
-            // ManyToMany specific fields (null if not 'mm')
-            fk_mm_model_id: options.relationType === 'mm' ? options.parentId : null, // Needs confirmation if parentId is correct here for MM
-            fk_mm_child_column_id: null,
-            fk_mm_parent_column_id: null,
-            type: options.relationType // Relation type ('hm', 'bt', 'mm')
-        };
-        console.log(`[alterTableAddColumn] LinkToAnotherRecord payload constructed.`);
-    } else {
-        // Default payload for other column types
-        payload = { title: columnName, uidt: columnType };
-        console.log(`[alterTableAddColumn] Standard payload constructed.`);
-    }
-
-    console.log(`[alterTableAddColumn] Requesting POST: ${nocodbClient.defaults.baseURL}${requestUrl} with data: ${JSON.stringify(payload)}`);
+    console.log(`[alterTableAddColumn] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl} with data: ${JSON.stringify(payload)}`);
     try {
-        const response = await nocodbClient.post(requestUrl, payload);
+        const response = await getNocoDbClient().post(requestUrl, payload);
         console.log(`[alterTableAddColumn] POST response status: ${response.status}`);
+        invalidateCurrentBaseMetadata(); // Link columns also add a column to the related table, so drop the whole base
         return response.data;
     } catch (error: any) {
         console.error(`[alterTableAddColumn] POST request failed: ${error.message}`);
         if (axios.isAxiosError(error)) {
             console.error(`[alterTableAddColumn] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
         }
-        throw new Error(`Error adding column: ${error.message}`);
+        throw toNocoDbError(error, "Error adding column");
+    }
+}
+
+export interface ColumnUpdate extends ColumnSettings {
+    title?: string;              // Rename
+    type?: ColumnTypeDefinition; // Change the type or its options
+}
+
+// NocoDB's column update replaces the column definition, so the current title, name, type and
+// options are sent along with whatever changes
+export async function alterTableUpdateColumn(tableName: string, columnName: string, changes: ColumnUpdate) {
+    console.log(`[alterTableUpdateColumn] Called for table: ${tableName}, column: ${columnName}, changes: ${JSON.stringify(changes)}`);
+    const columnId = await getColumnId(tableName, columnName);
+    const existing = ((await getTableMetadata(tableName)).columns || []).find((c: any) => c.id === columnId);
+    const { title, type, ...settings } = changes;
+    if (title !== undefined && title !== existing.title && (await getTableColumns(tableName)).some(c => c.title === title)) {
+        throw new NocoDbApiError("conflict", `Column '${title}' already exists in table '${tableName}'`);
+    }
+
+    // Display options (meta) belong to the type, so they are dropped when the type changes
+    const keptMeta = type && type.uidt !== existing.uidt ? {} : (existing.meta || {});
+    const payload: Record<string, unknown> = {
+        title: existing.title,
+        column_name: existing.column_name,
+        uidt: existing.uidt,
+        ...(Object.keys(keptMeta).length > 0 ? { meta: keptMeta } : {}),
+    };
+    if (!type) {
+        // Resend the current choices, formula, rollup/lookup targets or link settings, otherwise they would be dropped
+        Object.assign(payload, existingTypeOptions(existing));
+    }
+    const changed = toColumnPayload(type, settings, type ? await resolveColumnRefs(tableName, type) : {});
+    Object.assign(payload, changed, changed.meta ? { meta: { ...keptMeta, ...(changed.meta as object) } } : {});
+    if (title !== undefined) payload.title = title;
+
+    const requestUrl = `/api/v2/meta/columns/${columnId}`;
+    console.log(`[alterTableUpdateColumn] Requesting PATCH: ${getNocoDbClient().defaults.baseURL}${requestUrl} with data: ${JSON.stringify(payload)}`);
+    try {
+        const response = await getNocoDbClient().patch(requestUrl, payload);
+        console.log(`[alterTableUpdateColumn] PATCH response status: ${response.status}`);
+        invalidateCurrentBaseMetadata(); // Renames show up in lookups and rollups of other tables
+        return response.data;
+    } catch (error: any) {
+        console.error(`[alterTableUpdateColumn] PATCH request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[alterTableUpdateColumn] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error updating column");
     }
 }
 
 export async function alterTableRemoveColumn(columnId: string) {
     console.log(`[alterTableRemoveColumn] Called for columnId: ${columnId}`);
     const requestUrl = `/api/v2/meta/columns/${columnId}`;
-    console.log(`[alterTableRemoveColumn] Requesting DELETE: ${nocodbClient.defaults.baseURL}${requestUrl}`);
+    console.log(`[alterTableRemoveColumn] Requesting DELETE: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
     try {
-        const response = await nocodbClient.delete(requestUrl);
+        const response = await getNocoDbClient().delete(requestUrl);
         console.log(`[alterTableRemoveColumn] DELETE response status: ${response.status}`);
+        invalidateCurrentBaseMetadata(); // Only the column ID is known here, so drop the whole base
         return response.data;
     } catch (error: any) {
         console.error(`[alterTableRemoveColumn] DELETE request failed: ${error.message}`);
         if (axios.isAxiosError(error)) {
             console.error(`[alterTableRemoveColumn] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
         }
-        throw new Error(`Error removing column: ${error.message}`);
+        throw toNocoDbError(error, "Error removing column");
     }
 }
 
@@ -432,22 +1385,663 @@ export async function createTable(tableName: string, columnsData: TableColumnTyp
         console.log("[createTable] Auto-added 'Id' column (type: ID).");
     }
 
-    const requestUrl = `/api/v2/meta/bases/${NocoDbBaseId}/tables`;
+    const requestUrl = `/api/v2/meta/bases/${getNocoDbBaseId()}/tables`;
     const payload = {
         title: tableName,
         columns: columnsData.map(col => ({ title: col.title, uidt: col.uidt })),
     };
-    console.log(`[createTable] Requesting POST: ${nocodbClient.defaults.baseURL}${requestUrl} with data: ${JSON.stringify(payload)}`);
+    console.log(`[createTable] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl} with data: ${JSON.stringify(payload)}`);
 
     try {
-        const response = await nocodbClient.post(requestUrl, payload);
+        const response = await getNocoDbClient().post(requestUrl, payload);
         console.log(`[createTable] POST response status: ${response.status}`);
+        invalidateCurrentBaseMetadata();
         return response.data;
     } catch (error: any) {
         console.error(`[createTable] POST request failed: ${error.message}`);
         if (axios.isAxiosError(error)) {
             console.error(`[createTable] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
         }
-        throw new Error(`Error creating table: ${error.message}`);
+        throw toNocoDbError(error, "Error creating table");
+    }
+}
+
+// --- Table Lifecycle ---
+export interface TableUpdate {
+    title?: string;
+    description?: string;
+    order?: number; // Position in the base's table list
+}
+
+export async function updateTable(tableName: string, changes: TableUpdate) {
+    console.log(`[updateTable] Called for table: ${tableName} with changes: ${JSON.stringify(changes)}`);
+    const tableId = await getTableId(tableName);
+    if (changes.title !== undefined && changes.title !== tableName) {
+        const taken = (await getCachedTableList()).some((t: any) => t.title === changes.title);
+        if (taken) {
+            throw new NocoDbApiError("conflict", `A table named '${changes.title}' already exists in this base`);
+        }
+    }
+
+    try {
+        const client = getNocoDbClient();
+        if (changes.title !== undefined || changes.description !== undefined) {
+            await client.patch(`/api/v2/meta/tables/${tableId}`, {
+                ...(changes.title !== undefined ? { title: changes.title, table_name: changes.title } : {}),
+                ...(changes.description !== undefined ? { description: changes.description } : {}),
+            });
+        }
+        if (changes.order !== undefined) {
+            await client.post(`/api/v2/meta/tables/${tableId}/reorder`, { order: changes.order });
+        }
+        return { id: tableId, title: changes.title ?? tableName, updated: Object.keys(changes).filter(key => changes[key as keyof typeof changes] !== undefined) };
+    } catch (error: any) {
+        console.error(`[updateTable] Request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[updateTable] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error updating table");
+    } finally {
+        // A rename may have gone through even when the reorder after it failed
+        invalidateCurrentBaseMetadata();
+    }
+}
+
+// Deleting a table takes two calls: the first returns what would be lost and a short-lived token,
+// the second passes the token back. Tokens are bound to the base and table they were issued for.
+const DELETE_TOKEN_TTL_MS = 5 * 60 * 1000;
+const deleteTokens = new Map<string, { key: string; expiresAt: number }>();
+
+export async function deleteTable(tableName: string, confirmationToken?: string) {
+    console.log(`[deleteTable] Called for table: ${tableName}, confirmed: ${confirmationToken !== undefined}`);
+    const tableId = await getTableId(tableName);
+    const key = `${currentBaseKey()}|${tableId}`;
+    const now = Date.now();
+    deleteTokens.forEach((entry, token) => entry.expiresAt <= now && deleteTokens.delete(token));
+
+    if (confirmationToken === undefined) {
+        const metadata = await getTableMetadata(tableName);
+        const { count } = await countRecords(tableName);
+        const token = randomBytes(12).toString("hex");
+        deleteTokens.set(token, { key, expiresAt: now + DELETE_TOKEN_TTL_MS });
+        return {
+            confirmationRequired: true,
+            table: { id: tableId, title: tableName, columnCount: (metadata.columns || []).length, rowCount: count },
+            confirmationToken: token,
+            expiresInSeconds: DELETE_TOKEN_TTL_MS / 1000,
+        };
+    }
+
+    const entry = deleteTokens.get(confirmationToken);
+    if (!entry || entry.key !== key) {
+        throw new NocoDbApiError("validation", `Confirmation token is invalid or expired for table '${tableName}'. Call again without a token to get a new one.`);
+    }
+    deleteTokens.delete(confirmationToken);
+
+    const requestUrl = `/api/v2/meta/tables/${tableId}`;
+    console.log(`[deleteTable] Requesting DELETE: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().delete(requestUrl);
+        console.log(`[deleteTable] DELETE response status: ${response.status}`);
+        invalidateCurrentBaseMetadata();
+        return { deleted: true, table: { id: tableId, title: tableName } };
+    } catch (error: any) {
+        console.error(`[deleteTable] DELETE request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[deleteTable] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error deleting table");
+    }
+}
+
+// Columns that depend on relations to other tables, or that NocoDB creates and fills itself
+const UNCOPYABLE_TYPES = new Set(["LinkToAnotherRecord", "Links", "Lookup", "Rollup", "ForeignKey"]);
+// Copied as columns, but their values are computed and cannot be inserted
+const COMPUTED_TYPES = new Set(["Formula", "AutoNumber", "Barcode", "QRCode", "Button"]);
+
+// Column definition for the copy, carrying over the options that make it behave the same
+function toColumnCopy(column: any): Record<string, unknown> {
+    const copy: Record<string, unknown> = { title: column.title, uidt: column.uidt };
+    for (const field of ["dt", "dtxp", "dtxs", "meta", "cdf", "rqd", "unique", "description"]) {
+        if (column[field] !== undefined && column[field] !== null) copy[field] = column[field];
+    }
+    if (column.pv) copy.pv = true;
+    if ((column.uidt === "SingleSelect" || column.uidt === "MultiSelect") && column.colOptions?.options) {
+        copy.colOptions = { options: column.colOptions.options.map((o: any) => ({ title: o.title, color: o.color, order: o.order })) };
+    }
+    if (column.uidt === "Formula" && column.colOptions?.formula_raw) {
+        copy.formula_raw = column.colOptions.formula_raw;
+    }
+    return copy;
+}
+
+export async function duplicateTable(tableName: string, newTitle: string, options: { includeData?: boolean; chunkSize?: number } = {}) {
+    console.log(`[duplicateTable] Called for table: ${tableName}, newTitle: ${newTitle}, includeData: ${options.includeData}`);
+    if ((await getCachedTableList()).some((t: any) => t.title === newTitle)) {
+        throw new NocoDbApiError("conflict", `A table named '${newTitle}' already exists in this base`);
+    }
+    const metadata = await getTableMetadata(tableName);
+    const columns: any[] = (metadata.columns || []).filter((c: any) => !c.pk && !c.system);
+    const copied = columns.filter(c => !UNCOPYABLE_TYPES.has(c.uidt));
+    const skippedColumns = columns.filter(c => UNCOPYABLE_TYPES.has(c.uidt)).map(c => ({ title: c.title, uidt: c.uidt }));
+
+    const requestUrl = `/api/v2/meta/bases/${getNocoDbBaseId()}/tables`;
+    const payload = {
+        title: newTitle,
+        description: metadata.description ?? undefined,
+        columns: [{ title: "Id", uidt: "ID" }, ...copied.map(toColumnCopy)],
+    };
+    console.log(`[duplicateTable] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl} with ${payload.columns.length} columns`);
+    let created: any;
+    try {
+        const response = await getNocoDbClient().post(requestUrl, payload);
+        console.log(`[duplicateTable] POST response status: ${response.status}`);
+        created = response.data;
+        invalidateCurrentBaseMetadata();
+    } catch (error: any) {
+        console.error(`[duplicateTable] POST request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[duplicateTable] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error duplicating table");
+    }
+
+    const result: Record<string, unknown> = {
+        table: { id: created?.id, title: newTitle },
+        copiedColumns: copied.map(c => c.title),
+        skippedColumns,
+    };
+    if (!options.includeData) return result;
+
+    // Rows are read with their primary key (for per-chunk reporting) and written without it. The table is
+    // read one pagination budget at a time and each slice written before the next, so every row is copied.
+    const pkTitle = await getPrimaryKeyTitle(tableName);
+    const writable = copied.filter(c => !COMPUTED_TYPES.has(c.uidt)).map(c => c.title);
+    const targetUrl = `/api/v2/tables/${created.id}/records`;
+    let copiedRows = 0;
+    let failed = 0;
+    const failedChunks: Omit<BulkChunkResult, "output">[] = [];
+    let offset = 0;
+    let pageInfo: { isComplete: boolean; stoppedReason: string; nextOffset?: number };
+    do {
+        const source = await getAllRecords(tableName, undefined, [pkTitle], [pkTitle, ...writable], { startOffset: offset });
+        pageInfo = source.output.pageInfo;
+        const data = await runInChunks(source.output.list, pkTitle, options.chunkSize ?? 100, async rows => {
+            const response = await getNocoDbClient().post(targetUrl, rows.map(({ [pkTitle]: _id, ...fields }) => fields));
+            return response.data?.length ?? rows.length;
+        });
+        copiedRows += data.succeeded;
+        failed += data.failed;
+        failedChunks.push(...data.chunks.filter(c => c.status === "error").map(({ output: _output, ...c }) => c));
+        // A single record over the byte budget cannot be read this way: stop rather than loop
+        if (source.output.list.length === 0) break;
+        offset += source.output.list.length;
+    } while (!pageInfo.isComplete);
+    console.log(`[duplicateTable] Copied ${copiedRows} rows, ${failed} failed`);
+    return {
+        ...result,
+        data: {
+            copied: copiedRows,
+            failed,
+            failedChunks,
+            isComplete: pageInfo.isComplete,
+            stoppedReason: pageInfo.stoppedReason,
+            nextOffset: pageInfo.isComplete ? undefined : offset,
+        },
+    };
+}
+
+// --- View Operations ---
+
+// NocoDB view type codes
+const VIEW_TYPES: Record<number, string> = { 1: "form", 2: "gallery", 3: "grid", 4: "kanban", 5: "map", 6: "calendar" };
+// Create endpoints per view type (POST /api/v2/meta/tables/{tableId}/{endpoint})
+const VIEW_CREATE_ENDPOINTS = { grid: "grids", form: "forms", gallery: "galleries", kanban: "kanbans" } as const;
+export type CreatableViewType = keyof typeof VIEW_CREATE_ENDPOINTS;
+
+const getCachedViewList = async (tableId: string): Promise<any[]> => {
+    return metadataCache.getViews(currentBaseKey(), tableId, async () => {
+        console.log(`[getCachedViewList] Cache miss, fetching views for table: ${tableId}`);
+        const response = await getNocoDbClient().get(`/api/v2/meta/tables/${tableId}/views`);
+        return response.data.list || [];
+    });
+};
+
+// Resolves a view title or ID to its ID, the way getTableId resolves tables
+export async function getViewId(tableName: string, view: string): Promise<string> {
+    console.log(`[getViewId] Resolving view '${view}' of table: ${tableName}`);
+    const tableId = await getTableId(tableName);
+    try {
+        const views = await getCachedViewList(tableId);
+        const match = views.find((v: any) => v.id === view) ?? views.find((v: any) => v.title === view);
+        if (!match) {
+            const suggestion = suggestClosest(view, views.map((v: any) => v.title));
+            throw new NocoDbApiError("not_found", `View '${view}' not found in table '${tableName}'${suggestion ? ` (did you mean '${suggestion}'?)` : ""}`);
+        }
+        return match.id;
+    } catch (error: any) {
+        console.error(`[getViewId] Error resolving view '${view}': ${error.message}`);
+        throw toNocoDbError(error, "Error retrieving view ID");
+    }
+}
+
+export async function listViews(tableName: string) {
+    console.log(`[listViews] Called for table: ${tableName}`);
+    const tableId = await getTableId(tableName);
+    try {
+        const views = await getCachedViewList(tableId);
+        return views.map((v: any) => ({
+            id: v.id,
+            title: v.title,
+            type: VIEW_TYPES[v.type] ?? v.type,
+            isDefault: !!v.is_default,
+            lockType: v.lock_type,
+        }));
+    } catch (error: any) {
+        console.error(`[listViews] GET request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[listViews] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error listing views");
+    }
+}
+
+// A view with its filters, sorts and visible columns, with column IDs resolved to titles
+export async function getView(tableName: string, view: string) {
+    console.log(`[getView] Called for table: ${tableName}, view: ${view}`);
+    const viewId = await getViewId(tableName, view);
+    const columns = await getTableColumns(tableName);
+    const titleOf = (columnId: string) => columns.find(c => c.id === columnId)?.title ?? columnId;
+    const client = getNocoDbClient();
+    try {
+        const [views, filters, sorts, viewColumns] = await Promise.all([
+            listViews(tableName),
+            client.get(`/api/v2/meta/views/${viewId}/filters`),
+            client.get(`/api/v2/meta/views/${viewId}/sorts`),
+            client.get(`/api/v2/meta/views/${viewId}/columns`),
+        ]);
+        const mapFilter = (f: any): any => ({
+            id: f.id,
+            column: f.fk_column_id ? titleOf(f.fk_column_id) : undefined,
+            op: f.comparison_op,
+            subOp: f.comparison_sub_op || undefined,
+            value: f.value,
+            logicalOp: f.logical_op,
+            ...(f.is_group ? { group: (f.children || []).map(mapFilter) } : {}),
+        });
+        return {
+            ...views.find(v => v.id === viewId),
+            filters: (filters.data.list || []).map(mapFilter),
+            sorts: (sorts.data.list || []).map((s: any) => ({ id: s.id, column: titleOf(s.fk_column_id), direction: s.direction })),
+            columns: (viewColumns.data.list || [])
+                .sort((a: any, b: any) => (a.order ?? 0) - (b.order ?? 0))
+                .map((c: any) => ({ column: titleOf(c.fk_column_id), show: !!c.show })),
+        };
+    } catch (error: any) {
+        console.error(`[getView] GET request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[getView] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error getting view");
+    }
+}
+
+async function getColumnId(tableName: string, columnName: string): Promise<string> {
+    const columns = await getTableColumns(tableName);
+    const column = columns.find(c => c.title === columnName || c.id === columnName);
+    if (!column) {
+        const suggestion = suggestClosest(columnName, columns.map(c => c.title));
+        throw new NocoDbApiError("not_found", `Column '${columnName}' not found in table '${tableName}'${suggestion ? ` (did you mean '${suggestion}'?)` : ""}`);
+    }
+    return column.id;
+}
+
+// copyFrom (view title or ID) duplicates an existing view's filters, sorts and column settings
+export async function createView(tableName: string, title: string, type: CreatableViewType, copyFrom?: string) {
+    console.log(`[createView] Called for table: ${tableName}, title: ${title}, type: ${type}, copyFrom: ${copyFrom}`);
+    const tableId = await getTableId(tableName);
+    const requestUrl = `/api/v2/meta/tables/${tableId}/${VIEW_CREATE_ENDPOINTS[type]}`;
+    const payload: Record<string, unknown> = { title };
+    if (copyFrom) payload.copy_from_id = await getViewId(tableName, copyFrom);
+    console.log(`[createView] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().post(requestUrl, payload);
+        console.log(`[createView] POST response status: ${response.status}`);
+        invalidateCurrentBaseMetadata();
+        return response.data;
+    } catch (error: any) {
+        console.error(`[createView] POST request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[createView] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error creating view");
+    }
+}
+
+export interface ViewUpdate {
+    title?: string;
+    lockType?: "collaborative" | "locked" | "personal";
+    columns?: { column: string; show?: boolean; order?: number }[]; // Visibility/order of columns in the view
+}
+
+export async function updateView(tableName: string, view: string, changes: ViewUpdate) {
+    console.log(`[updateView] Called for table: ${tableName}, view: ${view}, changes: ${JSON.stringify(changes)}`);
+    const viewId = await getViewId(tableName, view);
+    const client = getNocoDbClient();
+    try {
+        if (changes.title !== undefined || changes.lockType !== undefined) {
+            const payload: Record<string, unknown> = {};
+            if (changes.title !== undefined) payload.title = changes.title;
+            if (changes.lockType !== undefined) payload.lock_type = changes.lockType;
+            console.log(`[updateView] Requesting PATCH: ${client.defaults.baseURL}/api/v2/meta/views/${viewId}`);
+            await client.patch(`/api/v2/meta/views/${viewId}`, payload);
+        }
+        if (changes.columns?.length) {
+            // View column settings are keyed by their own ID, not the table column ID
+            const viewColumns: any[] = (await client.get(`/api/v2/meta/views/${viewId}/columns`)).data.list || [];
+            for (const change of changes.columns) {
+                const columnId = await getColumnId(tableName, change.column);
+                const viewColumn = viewColumns.find(c => c.fk_column_id === columnId);
+                if (!viewColumn) {
+                    throw new NocoDbApiError("not_found", `Column '${change.column}' is not part of view '${view}'`);
+                }
+                const payload: Record<string, unknown> = {};
+                if (change.show !== undefined) payload.show = change.show;
+                if (change.order !== undefined) payload.order = change.order;
+                await client.patch(`/api/v2/meta/views/${viewId}/columns/${viewColumn.id}`, payload);
+            }
+        }
+        invalidateCurrentBaseMetadata();
+        return await getView(tableName, viewId);
+    } catch (error: any) {
+        console.error(`[updateView] Request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[updateView] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error updating view");
+    }
+}
+
+export interface ViewFilterInput {
+    column?: string;
+    op?: string;      // NocoDB comparison_op, e.g. eq, neq, like, gt, lt, blank, checked, anyof
+    subOp?: string;   // comparison_sub_op for date filters, e.g. today, pastNumberOfDays
+    value?: unknown;
+    logicalOp?: "and" | "or" | "not";
+}
+
+async function toFilterPayload(tableName: string, filter: ViewFilterInput) {
+    const payload: Record<string, unknown> = {};
+    if (filter.column !== undefined) payload.fk_column_id = await getColumnId(tableName, filter.column);
+    if (filter.op !== undefined) payload.comparison_op = filter.op;
+    if (filter.subOp !== undefined) payload.comparison_sub_op = filter.subOp;
+    if (filter.value !== undefined) payload.value = filter.value;
+    if (filter.logicalOp !== undefined) payload.logical_op = filter.logicalOp;
+    return payload;
+}
+
+export async function addViewFilter(tableName: string, view: string, filter: ViewFilterInput) {
+    console.log(`[addViewFilter] Called for table: ${tableName}, view: ${view}, filter: ${JSON.stringify(filter)}`);
+    const viewId = await getViewId(tableName, view);
+    const requestUrl = `/api/v2/meta/views/${viewId}/filters`;
+    const payload = { logical_op: "and", ...(await toFilterPayload(tableName, filter)) };
+    console.log(`[addViewFilter] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().post(requestUrl, payload);
+        console.log(`[addViewFilter] POST response status: ${response.status}`);
+        return response.data;
+    } catch (error: any) {
+        console.error(`[addViewFilter] POST request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[addViewFilter] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error adding view filter");
+    }
+}
+
+export async function updateViewFilter(tableName: string, filterId: string, changes: ViewFilterInput) {
+    console.log(`[updateViewFilter] Called for table: ${tableName}, filterId: ${filterId}, changes: ${JSON.stringify(changes)}`);
+    const requestUrl = `/api/v2/meta/filters/${filterId}`;
+    const payload = await toFilterPayload(tableName, changes);
+    console.log(`[updateViewFilter] Requesting PATCH: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().patch(requestUrl, payload);
+        console.log(`[updateViewFilter] PATCH response status: ${response.status}`);
+        return response.data;
+    } catch (error: any) {
+        console.error(`[updateViewFilter] PATCH request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[updateViewFilter] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error updating view filter");
+    }
+}
+
+export async function deleteViewFilter(filterId: string) {
+    console.log(`[deleteViewFilter] Called for filterId: ${filterId}`);
+    const requestUrl = `/api/v2/meta/filters/${filterId}`;
+    console.log(`[deleteViewFilter] Requesting DELETE: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().delete(requestUrl);
+        console.log(`[deleteViewFilter] DELETE response status: ${response.status}`);
+        return response.data;
+    } catch (error: any) {
+        console.error(`[deleteViewFilter] DELETE request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[deleteViewFilter] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error deleting view filter");
+    }
+}
+
+export async function addViewSort(tableName: string, view: string, column: string, direction: "asc" | "desc") {
+    console.log(`[addViewSort] Called for table: ${tableName}, view: ${view}, column: ${column}, direction: ${direction}`);
+    const viewId = await getViewId(tableName, view);
+    const requestUrl = `/api/v2/meta/views/${viewId}/sorts`;
+    const payload = { fk_column_id: await getColumnId(tableName, column), direction };
+    console.log(`[addViewSort] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().post(requestUrl, payload);
+        console.log(`[addViewSort] POST response status: ${response.status}`);
+        return response.data;
+    } catch (error: any) {
+        console.error(`[addViewSort] POST request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[addViewSort] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error adding view sort");
+    }
+}
+
+export async function deleteViewSort(sortId: string) {
+    console.log(`[deleteViewSort] Called for sortId: ${sortId}`);
+    const requestUrl = `/api/v2/meta/sorts/${sortId}`;
+    console.log(`[deleteViewSort] Requesting DELETE: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().delete(requestUrl);
+        console.log(`[deleteViewSort] DELETE response status: ${response.status}`);
+        return response.data;
+    } catch (error: any) {
+        console.error(`[deleteViewSort] DELETE request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[deleteViewSort] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error deleting view sort");
+    }
+}
+
+// --- Webhook Operations ---
+
+export type WebhookOperation = "insert" | "update" | "delete" | "bulkInsert" | "bulkUpdate" | "bulkDelete";
+
+export interface WebhookDefinition {
+    title: string;
+    event: "after" | "before";
+    operation: WebhookOperation;
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string; // Custom body template; NocoDB sends its default payload when omitted
+    active?: boolean;
+}
+
+// NocoDB stores the URL notification as { type: "URL", payload: { method, path, headers: [{name, value}], body } }
+function toHookPayload(definition: Partial<WebhookDefinition>, existingNotification?: any) {
+    const existing = existingNotification?.payload || {};
+    const headers = definition.headers
+        ? Object.entries(definition.headers).map(([name, value]) => ({ name, value, enabled: true }))
+        : existing.headers || [];
+    return {
+        ...(definition.title !== undefined ? { title: definition.title } : {}),
+        ...(definition.event !== undefined ? { event: definition.event } : {}),
+        ...(definition.operation !== undefined ? { operation: definition.operation } : {}),
+        ...(definition.active !== undefined ? { active: definition.active } : {}),
+        notification: {
+            type: "URL",
+            payload: {
+                ...existing,
+                method: definition.method ?? existing.method ?? "POST",
+                path: definition.url ?? existing.path,
+                headers,
+                body: definition.body ?? existing.body,
+                parameters: existing.parameters || [],
+            },
+        },
+    };
+}
+
+// Hook notifications come back as a JSON string on some NocoDB versions
+function parseHook(hook: any) {
+    if (hook && typeof hook.notification === "string") {
+        try {
+            return { ...hook, notification: JSON.parse(hook.notification) };
+        } catch {
+            return hook;
+        }
+    }
+    return hook;
+}
+
+// Hooks as NocoDB stores them, secret included; only for internal use (updates and tests resend them)
+async function getStoredWebhooks(tableName: string) {
+    console.log(`[getStoredWebhooks] Called for table: ${tableName}`);
+    const tableId = await getTableId(tableName);
+    const requestUrl = `/api/v2/meta/tables/${tableId}/hooks`;
+    console.log(`[getStoredWebhooks] Requesting GET: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().get(requestUrl);
+        console.log(`[getStoredWebhooks] GET response status: ${response.status}`);
+        return (response.data.list || []).map(parseHook);
+    } catch (error: any) {
+        console.error(`[getStoredWebhooks] GET request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[getStoredWebhooks] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error listing webhooks");
+    }
+}
+
+export async function listWebhooks(tableName: string) {
+    return (await getStoredWebhooks(tableName)).map(redactWebhookSecret);
+}
+
+async function findWebhook(tableName: string, hookId: string) {
+    const hook = (await getStoredWebhooks(tableName)).find((h: any) => h.id === hookId);
+    if (!hook) {
+        throw new NocoDbApiError("not_found", `Webhook '${hookId}' not found on table '${tableName}'`);
+    }
+    return hook;
+}
+
+export async function createWebhook(tableName: string, definition: WebhookDefinition) {
+    console.log(`[createWebhook] Called for table: ${tableName}, title: ${definition.title}, ${definition.event}.${definition.operation} -> ${definition.url}`);
+    const tableId = await getTableId(tableName);
+    const requestUrl = `/api/v2/meta/tables/${tableId}/hooks`;
+    const payload = { ...toHookPayload({ ...definition, active: definition.active ?? true }), version: "v2" };
+    console.log(`[createWebhook] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().post(requestUrl, payload);
+        console.log(`[createWebhook] POST response status: ${response.status}`);
+        return redactWebhookSecret(parseHook(response.data));
+    } catch (error: any) {
+        console.error(`[createWebhook] POST request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[createWebhook] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error creating webhook");
+    }
+}
+
+// Only the given fields change; the URL notification is merged with the hook's current one
+export async function updateWebhook(tableName: string, hookId: string, changes: Partial<WebhookDefinition>) {
+    console.log(`[updateWebhook] Called for table: ${tableName}, hookId: ${hookId}, changes: ${JSON.stringify(changes)}`);
+    const existing = await findWebhook(tableName, hookId);
+    const requestUrl = `/api/v2/meta/hooks/${hookId}`;
+    const payload = toHookPayload(changes, existing.notification);
+    console.log(`[updateWebhook] Requesting PATCH: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().patch(requestUrl, payload);
+        console.log(`[updateWebhook] PATCH response status: ${response.status}`);
+        return redactWebhookSecret(parseHook(response.data));
+    } catch (error: any) {
+        console.error(`[updateWebhook] PATCH request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[updateWebhook] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error updating webhook");
+    }
+}
+
+export async function deleteWebhook(hookId: string) {
+    console.log(`[deleteWebhook] Called for hookId: ${hookId}`);
+    const requestUrl = `/api/v2/meta/hooks/${hookId}`;
+    console.log(`[deleteWebhook] Requesting DELETE: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+    try {
+        const response = await getNocoDbClient().delete(requestUrl);
+        console.log(`[deleteWebhook] DELETE response status: ${response.status}`);
+        return response.data;
+    } catch (error: any) {
+        console.error(`[deleteWebhook] DELETE request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[deleteWebhook] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error deleting webhook");
+    }
+}
+
+// Fires the hook once with NocoDB's sample payload for its operation
+export async function testWebhook(tableName: string, hookId: string) {
+    console.log(`[testWebhook] Called for table: ${tableName}, hookId: ${hookId}`);
+    const hook = await findWebhook(tableName, hookId);
+    const tableId = await getTableId(tableName);
+    try {
+        const sampleUrl = `/api/v2/meta/tables/${tableId}/hooks/samplePayload/${hook.operation}/${hook.version || "v2"}`;
+        console.log(`[testWebhook] Requesting GET: ${getNocoDbClient().defaults.baseURL}${sampleUrl}`);
+        const sample = await getNocoDbClient().get(sampleUrl);
+
+        const requestUrl = `/api/v2/meta/tables/${tableId}/hooks/test`;
+        console.log(`[testWebhook] Requesting POST: ${getNocoDbClient().defaults.baseURL}${requestUrl}`);
+        const response = await getNocoDbClient().post(requestUrl, { hook, payload: sample.data });
+        console.log(`[testWebhook] POST response status: ${response.status}`);
+        return { hookId, tested: true, response: response.data };
+    } catch (error: any) {
+        console.error(`[testWebhook] Request failed: ${error.message}`);
+        if (axios.isAxiosError(error)) {
+            console.error(`[testWebhook] Status: ${error.response?.status}, Data: ${JSON.stringify(error.response?.data)}`);
+        }
+        throw toNocoDbError(error, "Error testing webhook");
+    }
+}
+
+// Buffered deliveries for tables of the current base (see webhooks.ts)
+export async function getWebhookEvents(query: { tableName?: string; receiverId?: string; afterId?: number; limit?: number }) {
+    console.log(`[getWebhookEvents] Called with: ${JSON.stringify(query)}`);
+    const tables = await getCachedTableList();
+    const tableIds = new Set<string>(
+        tables.filter((t: any) => !query.tableName || t.title === query.tableName).map((t: any) => t.id)
+    );
+    if (query.tableName && tableIds.size === 0) {
+        throw new NocoDbApiError("not_found", `Table '${query.tableName}' not found`);
     }
+    return webhookEvents.list({ afterId: query.afterId, receiverId: query.receiverId, tableIds, limit: query.limit });
 }
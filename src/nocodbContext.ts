@@ -0,0 +1,145 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { AxiosInstance } from "axios";
+import { NocoDbApiError } from "./errors.js";
+import {
+    createNocoDbClient,
+    NamedBases,
+    nocodbClient,
+    NocoDbApiToken,
+    NocoDbBaseId,
+    NocoDbUrl,
+    RateLimitBurst,
+    RateLimitPerSecond,
+    RetryOptions
+} from "./config.js";
+import { attachResilience, TokenBucket } from "./resilience.js";
+
+// --- Request-Scoped NocoDB Context ---
+// Tool calls run inside runWithNocoDbContext() so that every function in nocodbApi.ts talks to the
+// credentials and base chosen for the calling session (or the tool's baseId), without threading a
+// client through every signature. Outside a tool call the configured defaults are used.
+
+export interface NocoDbContext {
+    client: AxiosInstance;
+    url: string;
+    baseId: string;
+}
+
+// Credentials a session brought with it when it connected (headers or query params)
+export interface NocoDbSessionConfig {
+    apiToken?: string;
+    baseId?: string;
+    baseName?: string; // Key into NOCODB_BASES
+}
+
+const contextStorage = new AsyncLocalStorage<NocoDbContext>();
+
+// --- Rate Limiting ---
+// One token bucket per NocoDB URL + base, looked up from the context of the request being sent
+const limiters = new Map<string, TokenBucket>();
+
+function rateLimitForBase(baseId: string): number {
+    const named = Object.values(NamedBases).find(base => base.baseId === baseId && base.rateLimitPerSecond !== undefined);
+    return named?.rateLimitPerSecond ?? RateLimitPerSecond;
+}
+
+function currentLimiter(): TokenBucket | undefined {
+    const context = contextStorage.getStore();
+    const baseId = context?.baseId ?? NocoDbBaseId;
+    if (!baseId) return undefined;
+    const rate = rateLimitForBase(baseId);
+    if (!(rate > 0)) return undefined;
+
+    const key = `${context?.url ?? NocoDbUrl}|${baseId}`;
+    let limiter = limiters.get(key);
+    if (!limiter) {
+        limiter = new TokenBucket(rate, RateLimitBurst > 0 ? RateLimitBurst : Math.max(1, Math.ceil(rate)));
+        limiters.set(key, limiter);
+    }
+    return limiter;
+}
+
+const resilienceOptions = { ...RetryOptions, limiterFor: currentLimiter };
+attachResilience(nocodbClient, resilienceOptions);
+
+// One axios instance per (url, token) pair, shared across sessions using the same credentials
+const clientCache = new Map<string, AxiosInstance>();
+
+function getClientFor(url: string, apiToken: string): AxiosInstance {
+    if (url === NocoDbUrl && apiToken === NocoDbApiToken) {
+        return nocodbClient;
+    }
+    const cacheKey = `${url}\n${apiToken}`;
+    let client = clientCache.get(cacheKey);
+    if (!client) {
+        client = attachResilience(createNocoDbClient(url, apiToken), resilienceOptions);
+        clientCache.set(cacheKey, client);
+    }
+    return client;
+}
+
+// A session that brought its own token keeps it, and that token is only ever sent to NOCODB_URL: a named
+// base's own url/apiToken (or the server's token) are only used by sessions without a token.
+function namedBaseTarget(name: string, session: NocoDbSessionConfig): { url: string; apiToken?: string; baseId: string } {
+    const named = NamedBases[name];
+    if (session.apiToken) {
+        if (named.url && named.url.replace(/\/+$/, "") !== NocoDbUrl) {
+            throw new NocoDbApiError("auth", `Base '${name}' is on another NocoDB instance. Sessions that connect with their own token can only use bases on ${NocoDbUrl}.`);
+        }
+        return { url: NocoDbUrl, apiToken: session.apiToken, baseId: named.baseId };
+    }
+    return { url: named.url || NocoDbUrl, apiToken: named.apiToken || NocoDbApiToken, baseId: named.baseId };
+}
+
+// Resolves which NocoDB instance, token and base a call should use.
+// Precedence: tool baseId (named base or raw ID) > session base > NOCODB_BASE_ID default.
+export function resolveNocoDbContext(session: NocoDbSessionConfig = {}, baseIdOverride?: string): NocoDbContext {
+    let url = NocoDbUrl;
+    let apiToken = session.apiToken || NocoDbApiToken;
+    let baseId = NocoDbBaseId;
+
+    if (session.baseName) {
+        if (!NamedBases[session.baseName]) {
+            throw new NocoDbApiError("validation", `Unknown base name '${session.baseName}'. Configured bases: ${Object.keys(NamedBases).join(", ") || "(none)"}`);
+        }
+        ({ url, apiToken, baseId } = namedBaseTarget(session.baseName, session));
+    }
+    if (session.baseId) baseId = session.baseId;
+
+    if (baseIdOverride) {
+        if (NamedBases[baseIdOverride]) {
+            ({ url, apiToken, baseId } = namedBaseTarget(baseIdOverride, session));
+        } else {
+            baseId = baseIdOverride;
+        }
+    }
+
+    if (!apiToken) {
+        throw new NocoDbApiError("auth", "No NocoDB API token available. Provide one when connecting (X-NocoDB-Token header or nocodbToken query parameter) or configure NOCODB_API_TOKEN.");
+    }
+    if (!baseId) {
+        throw new NocoDbApiError("validation", "No NocoDB base selected. Pass 'baseId', connect with X-NocoDB-Base-Id / X-NocoDB-Base, or configure NOCODB_BASE_ID.");
+    }
+
+    return { client: getClientFor(url, apiToken), url, baseId };
+}
+
+export function runWithNocoDbContext<T>(context: NocoDbContext, fn: () => Promise<T>): Promise<T> {
+    return contextStorage.run(context, fn);
+}
+
+export function getNocoDbContext(): NocoDbContext | undefined {
+    return contextStorage.getStore();
+}
+
+export function getNocoDbClient(): AxiosInstance {
+    return contextStorage.getStore()?.client ?? nocodbClient;
+}
+
+export function getNocoDbBaseId(): string {
+    const baseId = contextStorage.getStore()?.baseId ?? NocoDbBaseId;
+    if (!baseId) {
+        throw new NocoDbApiError("validation", "No NocoDB base selected and no NOCODB_BASE_ID configured.");
+    }
+    return baseId;
+}
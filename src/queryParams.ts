@@ -0,0 +1,73 @@
+import { NocoDbApiError } from "./errors.js";
+
+// --- Query Parameters ---
+// Every NocoDB request passes its query through axios `params` and this serializer instead of
+// concatenating strings, so filters and column names containing &, #, +, spaces or non-ASCII text
+// (French or Japanese titles, for instance) reach NocoDB intact.
+
+// "-Created,Name", ["-Created", "Name"] or [{ field: "Created", direction: "desc" }, "Name"]
+export type SortInput = string | (string | { field: string; direction?: "asc" | "desc" })[];
+// "Id,Name" or ["Id", "Name"]
+export type FieldsInput = string | string[];
+
+export interface RecordQuery {
+    where?: string;
+    limit?: number;
+    offset?: number;
+    sort?: SortInput;
+    fields?: FieldsInput;
+    viewId?: string;
+}
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+// NocoDB splits sort/fields on commas and has no escape, so a column whose title contains one cannot be named here
+function checkColumnName(name: string, parameter: string): string {
+    if (name.includes(",")) {
+        throw new NocoDbApiError("validation", `Column '${name}' contains a comma and cannot be used in '${parameter}': NocoDB splits that parameter on commas.`);
+    }
+    return name;
+}
+
+export function toSortParam(sort?: SortInput): string | undefined {
+    if (sort === undefined || typeof sort === "string") return sort || undefined;
+    const parts = sort.map(entry => typeof entry === "string"
+        ? entry
+        : `${entry.direction === "desc" ? "-" : ""}${entry.field}`);
+    parts.forEach(part => checkColumnName(part.replace(/^-/, ""), "sort"));
+    return parts.length > 0 ? parts.join(",") : undefined;
+}
+
+export function toFieldsParam(fields?: FieldsInput): string | undefined {
+    if (fields === undefined || typeof fields === "string") return fields || undefined;
+    return fields.length > 0 ? fields.map(field => checkColumnName(field, "fields")).join(",") : undefined;
+}
+
+// Params for the records, count and links endpoints; empty values are left out as before
+export function recordQueryParams(query: RecordQuery): QueryParams {
+    return {
+        where: query.where || undefined,
+        limit: query.limit || undefined,
+        offset: query.offset || undefined,
+        sort: toSortParam(query.sort),
+        fields: toFieldsParam(query.fields),
+        viewId: query.viewId || undefined,
+    };
+}
+
+// Percent-encodes every key and value (spaces as %20, not '+'), skipping undefined values
+export function serializeQueryParams(params: QueryParams): string {
+    return Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+        .join("&");
+}
+
+// Readable form of a request for the logs
+export function describeRequest(url: string, params: QueryParams): string {
+    const query = Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => `${key}=${value}`)
+        .join("&");
+    return query ? `${url}?${query}` : url;
+}
@@ -0,0 +1,162 @@
+import { constants as fsConstants } from "fs";
+import fs from "fs/promises";
+import path from "node:path";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ExportDir } from "./config.js";
+import { NocoDbApiError } from "./errors.js";
+import { writeXlsx } from "./xlsx.js";
+
+// --- Record Output Formats ---
+// Record tools return NocoDB's JSON by default. 'compact' keeps JSON but lists the column names once
+// instead of repeating them in every record; 'csv' and 'markdown' are tables a user can read or paste.
+// Exports add JSON lines and XLSX files, returned as an embedded resource or saved in NOCODB_EXPORT_DIR.
+
+export const RECORD_FORMATS = ["json", "compact", "csv", "markdown"] as const;
+export type RecordFormat = typeof RECORD_FORMATS[number];
+
+export const EXPORT_FORMATS = ["csv", "json", "jsonl", "markdown", "xlsx"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const EXPORT_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+    csv: { extension: ".csv", mimeType: "text/csv" },
+    json: { extension: ".json", mimeType: "application/json" },
+    jsonl: { extension: ".jsonl", mimeType: "application/jsonl" },
+    markdown: { extension: ".md", mimeType: "text/markdown" },
+    xlsx: { extension: ".xlsx", mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+};
+
+// Column order: the requested fields, else every key in the order first seen
+export function recordColumns(records: Record<string, unknown>[], fields?: string | string[]): string[] {
+    if (fields !== undefined && fields.length > 0) {
+        return (typeof fields === "string" ? fields.split(",") : fields).map(field => field.trim());
+    }
+    const columns: string[] = [];
+    records.forEach(record => Object.keys(record).forEach(key => columns.includes(key) || columns.push(key)));
+    return columns;
+}
+
+// Objects (links, attachments, JSON columns) are written as JSON
+function cellText(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Spreadsheets run text starting with one of these as a formula when the CSV is opened
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// 'escapeFormulas' prefixes such text cells with ' so they open as text (used for exported files)
+export function toCsv(records: Record<string, unknown>[], columns: string[], options: { escapeFormulas?: boolean } = {}): string {
+    const quote = (text: string) => /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+    const cell = (value: unknown) => {
+        const text = cellText(value);
+        return options.escapeFormulas && typeof value === "string" && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+    };
+    return [columns.map(cell), ...records.map(record => columns.map(column => cell(record[column])))]
+        .map(row => row.map(quote).join(","))
+        .join("\r\n") + "\r\n";
+}
+
+export function toMarkdownTable(records: Record<string, unknown>[], columns: string[]): string {
+    const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+    const line = (cells: string[]) => `| ${cells.map(escape).join(" | ")} |`;
+    return [
+        line(columns),
+        `|${columns.map(() => " --- ").join("|")}|`,
+        ...records.map(record => line(columns.map(column => cellText(record[column])))),
+    ].join("\n") + "\n";
+}
+
+export function toCompact(records: Record<string, unknown>[], columns: string[]) {
+    return { columns, rows: records.map(record => columns.map(column => record[column] ?? null)) };
+}
+
+// Tool content for a page of records; 'extra' (pageInfo and the like) follows the table as JSON
+export function toRecordsContent(records: Record<string, unknown>[], format: Exclude<RecordFormat, "json">,
+                                 fields?: string | string[], extra: Record<string, unknown> = {}): CallToolResult["content"] {
+    const columns = recordColumns(records, fields);
+    if (format === "compact") {
+        return [{ type: "text", mimeType: "application/json", text: JSON.stringify({ ...toCompact(records, columns), ...extra }) }];
+    }
+    const table = format === "csv" ? toCsv(records, columns) : toMarkdownTable(records, columns);
+    const content: CallToolResult["content"] = [{ type: "text", mimeType: format === "csv" ? "text/csv" : "text/markdown", text: table }];
+    if (Object.keys(extra).length > 0) {
+        content.push({ type: "text", mimeType: "application/json", text: JSON.stringify(extra) });
+    }
+    return content;
+}
+
+export interface ExportFile {
+    fileName: string;
+    mimeType: string;
+    content: Buffer;
+}
+
+export function renderExport(records: Record<string, unknown>[], format: ExportFormat, options: { fields?: string | string[]; name: string; fileName?: string }): ExportFile {
+    const { extension, mimeType } = EXPORT_TYPES[format];
+    const fileName = options.fileName ?? `${options.name.replace(/[\\/:*?"<>|]/g, "_")}${extension}`;
+    const columns = recordColumns(records, options.fields);
+    let content: Buffer;
+    switch (format) {
+        case "csv":
+            content = Buffer.from(toCsv(records, columns, { escapeFormulas: true }), "utf8");
+            break;
+        case "json":
+            content = Buffer.from(JSON.stringify(records, null, 2), "utf8");
+            break;
+        case "jsonl":
+            content = Buffer.from(records.map(record => JSON.stringify(record) + "\n").join(""), "utf8");
+            break;
+        case "markdown":
+            content = Buffer.from(toMarkdownTable(records, columns), "utf8");
+            break;
+        case "xlsx":
+            content = writeXlsx({ name: options.name, rows: [columns, ...records.map(record => columns.map(column => record[column] ?? null))] });
+            break;
+    }
+    return { fileName, mimeType, content };
+}
+
+// Deepest directory on the way to 'dir' that already exists
+async function existingAncestor(dir: string): Promise<string> {
+    try {
+        return await fs.realpath(dir);
+    } catch (error: any) {
+        if (error.code !== "ENOENT" || path.dirname(dir) === dir) throw error;
+        return existingAncestor(path.dirname(dir));
+    }
+}
+
+// Writes inside NOCODB_EXPORT_DIR only; existing files are kept unless overwrite is set
+export async function saveExport(file: ExportFile, overwrite = false): Promise<string> {
+    if (!ExportDir) {
+        throw new NocoDbApiError("validation", "Saving exports on the server is disabled. Set NOCODB_EXPORT_DIR, or omit 'saveToServer' to get the file back as a resource.");
+    }
+    const root = await fs.realpath(ExportDir);
+    const target = path.resolve(root, file.fileName);
+    const inside = (dir: string) => dir === root || dir.startsWith(root + path.sep);
+    if (!target.startsWith(root + path.sep)) {
+        throw new NocoDbApiError("validation", `File name '${file.fileName}' points outside the export directory.`);
+    }
+    // A directory on the way may be a symlink out of the export directory: check before creating anything
+    if (!inside(await existingAncestor(path.dirname(target)))) {
+        throw new NocoDbApiError("validation", `File name '${file.fileName}' points outside the export directory.`);
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    if (!inside(await fs.realpath(path.dirname(target)))) {
+        throw new NocoDbApiError("validation", `File name '${file.fileName}' points outside the export directory.`);
+    }
+    // O_NOFOLLOW refuses a symlink in place of the file itself, which overwrite would otherwise follow
+    const { O_WRONLY, O_CREAT, O_TRUNC, O_EXCL, O_NOFOLLOW = 0 } = fsConstants;
+    try {
+        await fs.writeFile(target, file.content, { flag: O_WRONLY | O_CREAT | O_NOFOLLOW | (overwrite ? O_TRUNC : O_EXCL) });
+    } catch (error: any) {
+        if (error.code === "EEXIST") {
+            throw new NocoDbApiError("conflict", `'${file.fileName}' already exists in the export directory. Pass overwrite: true or another fileName.`);
+        }
+        if (error.code === "ELOOP") {
+            throw new NocoDbApiError("validation", `'${file.fileName}' is a symbolic link in the export directory and is not overwritten.`);
+        }
+        throw error;
+    }
+    return target;
+}
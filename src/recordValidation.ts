@@ -0,0 +1,208 @@
+// --- Schema-Aware Record Validation ---
+// Checks record payloads against a table's column metadata before they are sent to NocoDB, so the
+// model gets a precise list of problems instead of NocoDB's opaque 400. Values that can be safely
+// coerced (e.g. "42" for a Number column) are rewritten in the returned records.
+
+export type ValidationIssueCode = "unknown_column" | "invalid_type" | "invalid_option" | "required" | "read_only";
+
+export interface ValidationIssue {
+    row: number; // Index of the record in the payload (0 for a single object)
+    field: string;
+    code: ValidationIssueCode;
+    message: string;
+    suggestion?: string;
+}
+
+export class RecordValidationError extends Error {
+    constructor(public readonly tableName: string, public readonly issues: ValidationIssue[]) {
+        super(`Record payload for table '${tableName}' failed validation with ${issues.length} issue(s).`);
+        this.name = "RecordValidationError";
+    }
+}
+
+// Column types whose values NocoDB computes itself
+const READ_ONLY_UIDTS = new Set([
+    "CreatedTime", "LastModifiedTime", "CreatedBy", "LastModifiedBy", "AutoNumber",
+    "Formula", "Rollup", "Lookup", "LookUp", "Links", "LinkToAnotherRecord", "Barcode", "QRCode", "Button",
+]);
+
+const NUMERIC_UIDTS = new Set(["Number", "Decimal", "Currency", "Percent", "Rating", "Duration", "Year"]);
+
+// "Z", "+02:00" or "GMT+0200" after the time part of a date-time string
+const UTC_OFFSET = /\d{2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|(?:GMT|UTC)?([+-])(\d{2}):?(\d{2})?|GMT|UTC)$/i;
+
+// Minutes east of UTC written in a date-time string, or undefined when it has no offset
+function writtenOffset(text: string): number | undefined {
+    const match = UTC_OFFSET.exec(text);
+    if (!match) return undefined;
+    if (!match[4]) return 0;
+    const minutes = Number(match[5]) * 60 + Number(match[6] ?? 0);
+    return match[4] === "-" ? -minutes : minutes;
+}
+
+// ISO 8601 wall-clock time of an instant at the given offset, with the offset appended when asked
+function formatAtOffset(date: Date, offsetMinutes: number, withOffset: boolean): string {
+    const wallClock = new Date(date.getTime() + offsetMinutes * 60_000).toISOString().slice(0, 23);
+    if (!withOffset) return wallClock;
+    const sign = offsetMinutes < 0 ? "-" : "+";
+    const abs = Math.abs(offsetMinutes);
+    return `${wallClock}${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+// Plain Levenshtein distance, used for "did you mean" suggestions
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
+
+export function suggestClosest(name: string, candidates: string[]): string | undefined {
+    const lower = name.toLowerCase();
+    let best: { candidate: string; distance: number } | undefined;
+    for (const candidate of candidates) {
+        const distance = editDistance(lower, candidate.toLowerCase());
+        if (!best || distance < best.distance) best = { candidate, distance };
+    }
+    const threshold = Math.max(2, Math.floor(name.length / 3));
+    return best && best.distance <= threshold ? best.candidate : undefined;
+}
+
+// System columns, an auto-increment primary key and computed types
+export function isReadOnly(column: any): boolean {
+    return !!column.system || (column.pk && column.ai) || READ_ONLY_UIDTS.has(column.uidt);
+}
+
+function selectOptions(column: any): string[] {
+    return (column.colOptions?.options || []).map((o: any) => String(o.title));
+}
+
+// Returns the coerced value, or an issue describing why the value does not fit the column
+function coerceValue(column: any, value: unknown): { value?: unknown; issue?: Omit<ValidationIssue, "row" | "field"> } {
+    if (value === null || value === undefined) return { value };
+    const uidt: string = column.uidt;
+
+    if (NUMERIC_UIDTS.has(uidt)) {
+        const number = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+        if (isNaN(number)) {
+            return { issue: { code: "invalid_type", message: `Expected a number for ${uidt} column, got ${JSON.stringify(value)}.` } };
+        }
+        if (uidt === "Number" && !Number.isInteger(number)) {
+            return { issue: { code: "invalid_type", message: `Number columns hold integers; use a Decimal column for ${number}.` } };
+        }
+        return { value: number };
+    }
+
+    if (uidt === "Checkbox") {
+        if (typeof value === "boolean") return { value };
+        const normalized = String(value).trim().toLowerCase();
+        if (["true", "1", "yes", "y", "on"].includes(normalized)) return { value: true };
+        if (["false", "0", "no", "n", "off", ""].includes(normalized)) return { value: false };
+        return { issue: { code: "invalid_type", message: `Expected true/false for Checkbox column, got ${JSON.stringify(value)}.` } };
+    }
+
+    if (uidt === "Date" || uidt === "DateTime") {
+        const date = value instanceof Date ? value : new Date(String(value));
+        if (isNaN(date.getTime())) {
+            return { issue: { code: "invalid_type", message: `Expected a ${uidt === "Date" ? "date (YYYY-MM-DD)" : "date-time (ISO 8601)"}, got ${JSON.stringify(value)}.` } };
+        }
+        // Nothing is converted to UTC, which would move the wall-clock time and can move a Date
+        // column a day. ISO strings are kept as written (Date columns keep just the date part);
+        // other strings keep their written offset, and Date objects use this server's timezone.
+        const text = typeof value === "string" ? value.trim() : "";
+        if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+            return { value: uidt === "Date" ? text.slice(0, 10) : text };
+        }
+        const written = value instanceof Date ? undefined : writtenOffset(text);
+        const formatted = formatAtOffset(date, written ?? -date.getTimezoneOffset(), value instanceof Date || written !== undefined);
+        return { value: uidt === "Date" ? formatted.slice(0, 10) : formatted };
+    }
+
+    if (uidt === "SingleSelect" || uidt === "MultiSelect") {
+        const options = selectOptions(column);
+        const values = uidt === "MultiSelect"
+            ? (Array.isArray(value) ? value : String(value).split(",")).map(v => String(v).trim()).filter(Boolean)
+            : [String(value)];
+        if (uidt === "SingleSelect" && Array.isArray(value)) {
+            return { issue: { code: "invalid_type", message: "SingleSelect columns take one option, not an array." } };
+        }
+        if (options.length > 0) {
+            const invalid = values.filter(v => !options.includes(v));
+            if (invalid.length > 0) {
+                const suggestion = suggestClosest(invalid[0], options);
+                return {
+                    issue: {
+                        code: "invalid_option",
+                        message: `${invalid.map(v => `'${v}'`).join(", ")} not in options: ${options.join(", ")}.`,
+                        suggestion,
+                    }
+                };
+            }
+        }
+        return { value: uidt === "MultiSelect" ? values.join(",") : values[0] };
+    }
+
+    return { value };
+}
+
+// Validates one record or an array of records. In "update" mode required fields are not enforced and
+// the primary key may be present (it identifies the row).
+export function validateRecordPayload(tableName: string, columns: any[], payload: unknown, mode: "create" | "update") {
+    const records = Array.isArray(payload) ? payload : [payload];
+    const issues: ValidationIssue[] = [];
+    const byTitle = new Map<string, any>(columns.map(c => [c.title, c]));
+    const titles = columns.map(c => c.title);
+
+    const coerced = records.map((record, row) => {
+        if (!record || typeof record !== "object" || Array.isArray(record)) {
+            issues.push({ row, field: "", code: "invalid_type", message: "Each record must be a JSON object of column: value pairs." });
+            return record;
+        }
+        const output: Record<string, unknown> = {};
+        for (const [field, value] of Object.entries(record as Record<string, unknown>)) {
+            const column = byTitle.get(field);
+            if (!column) {
+                // Lowercase 'id' is how this server identifies rows, so let it through
+                if (mode === "update" && field === "id") {
+                    output[field] = value;
+                    continue;
+                }
+                const suggestion = suggestClosest(field, titles);
+                issues.push({ row, field, code: "unknown_column", message: `Column '${field}' does not exist in table '${tableName}'.`, suggestion });
+                continue;
+            }
+            if (isReadOnly(column) && !(mode === "update" && column.pk)) {
+                issues.push({ row, field, code: "read_only", message: `Column '${field}' (${column.uidt}) is computed by NocoDB and cannot be written.` });
+                continue;
+            }
+            const result = coerceValue(column, value);
+            if (result.issue) {
+                issues.push({ row, field, ...result.issue });
+                continue;
+            }
+            output[field] = result.value;
+        }
+
+        if (mode === "create") {
+            for (const column of columns) {
+                const hasDefault = column.cdf !== null && column.cdf !== undefined && column.cdf !== "";
+                if (column.rqd && !isReadOnly(column) && !column.ai && !hasDefault) {
+                    const value = (record as Record<string, unknown>)[column.title];
+                    if (value === undefined || value === null || value === "") {
+                        issues.push({ row, field: column.title, code: "required", message: `Column '${column.title}' is required.` });
+                    }
+                }
+            }
+        }
+        return output;
+    });
+
+    return { records: Array.isArray(payload) ? coerced : coerced[0], issues };
+}
@@ -0,0 +1,118 @@
+import axios, { AxiosError, AxiosHeaders, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+// --- Retry, Backoff and Rate Limiting for NocoDB clients ---
+// Transient failures (network errors, 429, 502/503/504) are retried with exponential backoff and
+// full jitter, honouring Retry-After. Only idempotent requests are retried after a failure that may
+// have reached NocoDB; a POST or PATCH is retried on a 429 (which means the request was rejected before
+// it was processed). This server never sets an Idempotency-Key itself, since NocoDB does not deduplicate
+// on one, but a request given that header (for a proxy that does) is retried like a GET. Requests also
+// pass through a token bucket per base so bursts from bulk workflows stay under NocoDB's rate limits.
+
+export interface RetryOptions {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface ResilienceOptions extends RetryOptions {
+    // Returns the token bucket for the request being sent (undefined = not rate limited)
+    limiterFor: () => TokenBucket | undefined;
+}
+
+const IDEMPOTENT_METHODS = new Set(["get", "head", "options", "put", "delete"]);
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+interface RetryState {
+    __retryCount?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private ratePerSecond: number, private capacity: number = ratePerSecond) {
+        this.tokens = capacity;
+    }
+
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+        this.lastRefill = now;
+    }
+
+    // Resolves once a token is available; callers are served in arrival order
+    take(): Promise<void> {
+        const turn = this.queue.then(async () => {
+            this.refill();
+            if (this.tokens < 1) {
+                await sleep(((1 - this.tokens) / this.ratePerSecond) * 1000);
+                this.refill();
+            }
+            this.tokens -= 1;
+        });
+        this.queue = turn.catch(() => undefined);
+        return turn;
+    }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: unknown): number | undefined {
+    if (typeof header !== "string" || !header.trim()) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryable(error: AxiosError): boolean {
+    const config = error.config;
+    if (!config) return false;
+    // Streamed bodies (multipart uploads) are consumed by the first attempt and cannot be resent
+    if (typeof (config.data as any)?.pipe === "function") return false;
+    // Responses over maxContentLength fail the same way on every attempt
+    if (!error.response && error.code === "ERR_BAD_RESPONSE") return false;
+    const status = error.response?.status;
+    if (status !== undefined && !RETRYABLE_STATUSES.has(status)) return false;
+
+    const method = (config.method || "get").toLowerCase();
+    const hasIdempotencyKey = !!AxiosHeaders.from(config.headers).get("Idempotency-Key"); // Header names are case-insensitive
+    if (IDEMPOTENT_METHODS.has(method) || hasIdempotencyKey) return true;
+    // A 429 means NocoDB refused the request outright, so even a POST/PATCH is safe to resend
+    return status === 429;
+}
+
+export function computeBackoffDelay(attempt: number, options: RetryOptions, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) return Math.min(retryAfterMs, options.maxDelayMs);
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+    return Math.random() * exponential; // Full jitter
+}
+
+export function attachResilience(client: AxiosInstance, options: ResilienceOptions): AxiosInstance {
+    client.interceptors.request.use(async (config: InternalAxiosRequestConfig) => {
+        const limiter = options.limiterFor();
+        if (limiter) await limiter.take();
+        return config;
+    });
+
+    client.interceptors.response.use(undefined, async (error: unknown) => {
+        if (!axios.isAxiosError(error) || !error.config || !isRetryable(error)) {
+            throw error;
+        }
+        const config = error.config as InternalAxiosRequestConfig & RetryState;
+        const attempt = config.__retryCount ?? 0;
+        if (attempt >= options.maxRetries) {
+            throw error;
+        }
+        config.__retryCount = attempt + 1;
+
+        const delay = computeBackoffDelay(attempt, options, parseRetryAfter(error.response?.headers?.["retry-after"]));
+        console.warn(`[Resilience] ${config.method?.toUpperCase()} ${config.url} failed (${error.response?.status ?? error.code}); retry ${attempt + 1}/${options.maxRetries} in ${Math.round(delay)}ms`);
+        await sleep(delay);
+        return client.request(config);
+    });
+
+    return client;
+}
@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { MaxCellChars, MaxResponseChars } from "./config.js";
+
+// --- Response Shaping ---
+// Record tools trim what they return before it reaches the model: system columns (CreatedAt, UpdatedAt,
+// nc_*) are left out, long text is cut with a marker, attachment and link cells are replaced by short
+// summaries, and trailing records are dropped once the response passes NOCODB_MAX_RESPONSE_CHARS.
+// 'raw: true' returns NocoDB's response untouched.
+
+export const shapingShape = {
+    raw: z.boolean().optional().describe("Return NocoDB's response untouched: system columns, full attachment and link objects, no truncation or size cap."),
+    includeSystemColumns: z.boolean().optional().describe("Keep system columns (CreatedAt, UpdatedAt, nc_*)."),
+    maxCellChars: z.number().int().nonnegative().optional().describe(`Cut text cells longer than this many characters (default ${MaxCellChars}, 0 = never).`),
+    maxResponseChars: z.number().int().positive().optional().describe(`Drop trailing records once the response passes this many characters (at most and by default ${MaxResponseChars}).`),
+};
+
+export interface ShapingOptions {
+    includeSystemColumns?: boolean;
+    maxCellChars?: number;
+    maxResponseChars?: number; // Capped at NOCODB_MAX_RESPONSE_CHARS
+    keep?: string[];           // Columns asked for by name (e.g. via 'fields') are never dropped
+}
+
+// What shaping changed, reported next to the records so the caller knows how to get the rest
+export interface ShapingReport {
+    droppedColumns?: string[];
+    summarizedColumns?: string[];
+    truncatedCells?: number;
+    omittedRecords?: number;
+}
+
+const SYSTEM_COLUMN_NAME = /^(CreatedAt|UpdatedAt|created_at|updated_at|nc_.*|__nc_.*)$/;
+const LINK_UIDTS = new Set(["LinkToAnotherRecord", "Links"]);
+const MAX_LINK_ITEMS = 5;
+
+function isSystemColumn(name: string, column: any): boolean {
+    return !column?.pk && (!!column?.system || SYSTEM_COLUMN_NAME.test(name));
+}
+
+// An attachment cell is a list of file objects; without column metadata the shape gives it away
+function isAttachmentList(value: unknown): value is any[] {
+    return Array.isArray(value) && value.length > 0 &&
+        value.every(item => item && typeof item === "object" && "mimetype" in item && ("path" in item || "url" in item || "signedUrl" in item));
+}
+
+function summarizeAttachments(files: any[]) {
+    return files.map(file => ({ title: file.title, mimetype: file.mimetype, size: file.size }));
+}
+
+// Primary key plus the first text value, which is usually the display column
+function summarizeLinkedRecord(record: any) {
+    if (!record || typeof record !== "object") return record;
+    const id = record.Id ?? record.id;
+    const display = Object.entries(record).find(([key, value]) => key !== "Id" && key !== "id" && typeof value === "string")?.[1];
+    return display === undefined ? { Id: id } : { Id: id, display };
+}
+
+function summarizeLinks(value: unknown) {
+    if (Array.isArray(value)) {
+        return { count: value.length, items: value.slice(0, MAX_LINK_ITEMS).map(summarizeLinkedRecord) };
+    }
+    return value && typeof value === "object" ? summarizeLinkedRecord(value) : value; // Links columns hold a plain count
+}
+
+function truncate(text: string, max: number): string {
+    return `${text.slice(0, max)}… [truncated, ${text.length} chars]`;
+}
+
+// 'columns' is the table's column metadata, used to recognise system, attachment and link columns
+export function shapeRecords(records: Record<string, unknown>[], columns: any[], options: ShapingOptions = {}): { records: Record<string, unknown>[]; report: ShapingReport } {
+    const byTitle = new Map<string, any>(columns.map(column => [column.title, column]));
+    const maxCellChars = options.maxCellChars ?? MaxCellChars;
+    const maxResponseChars = Math.min(options.maxResponseChars ?? MaxResponseChars, MaxResponseChars);
+    const dropped = new Set<string>();
+    const summarized = new Set<string>();
+    let truncatedCells = 0;
+
+    const shaped = records.map(record => {
+        const result: Record<string, unknown> = {};
+        for (const [name, value] of Object.entries(record)) {
+            const column = byTitle.get(name);
+            if (!options.includeSystemColumns && !options.keep?.includes(name) && isSystemColumn(name, column)) {
+                dropped.add(name);
+                continue;
+            }
+            if (column?.uidt === "Attachment" || (!column && isAttachmentList(value))) {
+                result[name] = Array.isArray(value) ? summarizeAttachments(value) : value;
+                if (Array.isArray(value)) summarized.add(name);
+            } else if (LINK_UIDTS.has(column?.uidt) && value !== null && typeof value === "object") {
+                result[name] = summarizeLinks(value);
+                summarized.add(name);
+            } else if (typeof value === "string" && maxCellChars > 0 && value.length > maxCellChars) {
+                result[name] = truncate(value, maxCellChars);
+                truncatedCells++;
+            } else {
+                result[name] = value;
+            }
+        }
+        return result;
+    });
+
+    // Keep whole records while they fit in the character budget (always at least one)
+    let chars = 0;
+    let kept = 0;
+    for (const record of shaped) {
+        chars += JSON.stringify(record).length + 1;
+        if (kept > 0 && chars > maxResponseChars) break;
+        kept++;
+    }
+
+    const report: ShapingReport = {};
+    if (dropped.size > 0) report.droppedColumns = [...dropped];
+    if (summarized.size > 0) report.summarizedColumns = [...summarized];
+    if (truncatedCells > 0) report.truncatedCells = truncatedCells;
+    if (kept < shaped.length) report.omittedRecords = shaped.length - kept;
+    return { records: shaped.slice(0, kept), report };
+}
@@ -1,22 +1,83 @@
 import express, { Request, Response } from "express";
 import cors from 'cors';
+import { randomUUID } from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import { NocoDbSessionConfig } from "./nocodbContext.js";
+import { NamedBases, numberFromEnv } from "./config.js";
+import {
+    createAuthMiddleware,
+    createOriginGuard,
+    loadAuthSettingsFromEnv,
+    loadCorsOriginsFromEnv,
+    PROTECTED_RESOURCE_METADATA_PATH,
+    protectedResourceMetadataHandler,
+    requestPrincipal
+} from "./auth.js";
+import { verifyWebhookSecret, webhookEvents, WebhookSecret } from "./webhooks.js";
+import { changeWatcher } from "./changeWatcher.js";
+
+// An SSE session and the principal that opened it; only that principal may post to it
+interface SseSession {
+    transport: SSEServerTransport;
+    principal?: string;
+}
 
 // Type definition for the transports dictionary
 interface ActiveTransports {
-    [sessionId: string]: SSEServerTransport;
+    [sessionId: string]: SseSession;
+}
+
+// A Streamable HTTP session outlives any single HTTP connection, so it is tracked with its
+// own McpServer and event store and expired only after a period of inactivity
+interface StreamableSession {
+    transport: StreamableHTTPServerTransport;
+    mcpServer: McpServer;
+    eventStore: InMemoryEventStore;
+    lastActivity: number;
+    principal?: string; // Who initialized the session; requests from anyone else are refused
+}
+
+interface ActiveStreamableSessions {
+    [sessionId: string]: StreamableSession;
+}
+
+// Serves a single McpServer over this process's stdin/stdout
+export async function startStdioServer(mcpServer: McpServer) {
+    console.log("[Stdio Server] Connecting McpServer to stdio transport...");
+    const transport = new StdioServerTransport();
+    transport.onclose = () => {
+        console.log("[Stdio Server] stdio transport closed.");
+    };
+    await mcpServer.connect(transport);
+    console.log("[Stdio Server] McpServer connected over stdio.");
 }
 
-export function startHttpServer(mcpServer: McpServer) {
+// A McpServer can only be bound to one transport at a time, so every SSE session gets its own instance
+export function startHttpServer(createMcpServer: (sessionConfig: NocoDbSessionConfig) => McpServer) {
     const app = express();
-    app.use(cors()); // Enable CORS for all origins
+
+    // CORS: allow the configured origins (all by default), exposing the Streamable HTTP session and auth challenge headers
+    const corsOrigins = loadCorsOriginsFromEnv();
+    app.use(cors({ origin: corsOrigins, exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate'] }));
+    app.use(createOriginGuard(corsOrigins));
+
+    // Inbound authentication for every MCP endpoint (no-op when nothing is configured)
+    const authSettings = loadAuthSettingsFromEnv();
+    const requireAuth = createAuthMiddleware(authSettings);
+
+    // OAuth protected resource metadata (RFC 9728), published for the root and the /mcp resource path
+    app.get([PROTECTED_RESOURCE_METADATA_PATH, `${PROTECTED_RESOURCE_METADATA_PATH}/mcp`], protectedResourceMetadataHandler(authSettings));
 
     // Dictionary to store active SSE transports, keyed by session ID
     const transports: ActiveTransports = {};
 
     console.log("[HTTP Server] Setting up SSE endpoint at /sse");
-    app.get("/sse", async (req: Request, res: Response) => {
+    app.get("/sse", requireAuth, async (req: Request, res: Response) => {
         const timestamp = new Date().toISOString();
         console.log(`[${timestamp}] SSE connection request received.`);
 
@@ -28,9 +89,13 @@ export function startHttpServer(mcpServer: McpServer) {
 
         // Create a new SSE transport for this connection
         // '/messages' tells the client where to POST messages back
+        const sessionConfig = readNocoDbSessionConfig(req);
+        if (!validateNocoDbSessionConfig(sessionConfig, res)) return;
+
         const transport = new SSEServerTransport('/messages', res);
+        const mcpServer = createMcpServer(sessionConfig);
         const sessionId = transport.sessionId;
-        transports[sessionId] = transport; // Store the transport
+        transports[sessionId] = { transport, principal: requestPrincipal(req) }; // Store the transport
         console.log(`[${timestamp}] SSE transport created for session: ${sessionId}`);
 
         // Keep-alive mechanism
@@ -48,7 +113,9 @@ export function startHttpServer(mcpServer: McpServer) {
             console.log(`[${closeTimestamp}] SSE connection closed for session: ${sessionId}. Headers Sent: ${res.headersSent}, Writable Ended: ${res.writableEnded}`);
             clearInterval(keepAliveInterval); // Stop keep-alive
             delete transports[sessionId]; // Clean up transport
-            // Potentially call transport.close() if available in SDK for cleaner shutdown
+            mcpServer.close().catch(error => {
+                console.error(`[${closeTimestamp}] Error closing McpServer for session ${sessionId}:`, error);
+            });
             console.log(`[${closeTimestamp}] Transport for session ${sessionId} removed.`);
         });
 
@@ -67,11 +134,17 @@ export function startHttpServer(mcpServer: McpServer) {
 
     console.log("[HTTP Server] Setting up message endpoint at POST /messages");
     // Endpoint for receiving messages from the client
-    app.post("/messages", async (req: Request, res: Response) => {
+    app.post("/messages", requireAuth, async (req: Request, res: Response) => {
         const sessionId = req.query.sessionId as string;
-        const transport = transports[sessionId];
         const timestamp = new Date().toISOString();
         console.log(`[${timestamp}] POST received on /messages for session: ${sessionId}`);
+        // A session opened by another principal is treated as unknown
+        const sseSession = transports[sessionId];
+        const owned = sseSession !== undefined && sseSession.principal === requestPrincipal(req);
+        if (sseSession && !owned) {
+            console.warn(`[${timestamp}] Refused POST /messages for session ${sessionId}: it belongs to another principal.`);
+        }
+        const transport = owned ? sseSession.transport : undefined;
 
         if (transport) {
             console.log(`[${timestamp}] Processing POST message for session ${sessionId}...`);
@@ -95,6 +168,162 @@ export function startHttpServer(mcpServer: McpServer) {
         }
     });
 
+    // NocoDB webhook receiver: authenticated by the shared secret rather than MCP credentials, since
+    // NocoDB can only send static headers. Events are buffered for 'nocodb-get-webhook-events'.
+    if (WebhookSecret) {
+        console.log("[HTTP Server] Setting up NocoDB webhook receiver at /webhooks/:id");
+        app.post("/webhooks/:id", async (req: Request, res: Response) => {
+            const timestamp = new Date().toISOString();
+            if (!verifyWebhookSecret(req)) {
+                console.error(`[${timestamp}] Rejected webhook delivery for '${req.params.id}': invalid or missing secret.`);
+                res.status(401).json({ error: "invalid_webhook_secret" });
+                return;
+            }
+            const body = await readJsonBody(req);
+            if (body === undefined) {
+                res.status(400).json({ error: "invalid_body", error_description: "Expected a JSON body." });
+                return;
+            }
+            const event = webhookEvents.push(req.params.id, body);
+            console.log(`[${timestamp}] Webhook event ${event.id} received on '${event.receiverId}': ${event.type ?? "(no type)"} ${event.tableName ?? ""}`);
+            // Subscribers to this table hear about the change now rather than at the next poll
+            if (event.tableId) changeWatcher.checkTable(event.tableId);
+            res.status(200).json({ received: true, id: event.id });
+        });
+    }
+
+    // Dictionary to store Streamable HTTP sessions, keyed by the Mcp-Session-Id header
+    const streamableSessions: ActiveStreamableSessions = {};
+    const sessionIdleTimeoutMs = numberFromEnv("MCP_SESSION_IDLE_TIMEOUT_MS", 1800000, 1000); // 30 minutes
+    const maxEventsPerStream = numberFromEnv("MCP_EVENT_STORE_MAX_EVENTS", 1000, 1);
+
+    const closeStreamableSession = (sessionId: string, reason: string) => {
+        const session = streamableSessions[sessionId];
+        if (!session) return;
+        delete streamableSessions[sessionId];
+        console.log(`[${new Date().toISOString()}] Streamable HTTP session ${sessionId} closed (${reason}).`);
+        session.transport.close().catch(error => {
+            console.error(`[${new Date().toISOString()}] Error closing transport for session ${sessionId}:`, error);
+        });
+        session.mcpServer.close().catch(error => {
+            console.error(`[${new Date().toISOString()}] Error closing McpServer for session ${sessionId}:`, error);
+        });
+    };
+
+    // Sweep idle sessions and expired replay events once a minute
+    setInterval(() => {
+        const now = Date.now();
+        for (const [sessionId, session] of Object.entries(streamableSessions)) {
+            if (now - session.lastActivity > sessionIdleTimeoutMs) {
+                closeStreamableSession(sessionId, "idle timeout");
+            } else {
+                session.eventStore.prune();
+            }
+        }
+    }, 60000).unref();
+
+    console.log("[HTTP Server] Setting up Streamable HTTP endpoint at /mcp");
+    // Single endpoint for the Streamable HTTP transport:
+    // POST carries client messages, GET opens (or resumes, via Last-Event-ID) the server stream, DELETE ends the session
+    app.all("/mcp", requireAuth, async (req: Request, res: Response) => {
+        const sessionId = req.header('mcp-session-id');
+        const timestamp = new Date().toISOString();
+        console.log(`[${timestamp}] ${req.method} received on /mcp for session: ${sessionId ?? '(new)'}`);
+
+        let session = sessionId ? streamableSessions[sessionId] : undefined;
+        if (session && session.principal !== requestPrincipal(req)) {
+            // Answered like an unknown session, so one client cannot drive (or probe) another's session
+            console.warn(`[${timestamp}] Refused ${req.method} /mcp for session ${sessionId}: it belongs to another principal.`);
+            session = undefined;
+        }
+
+        if (!session) {
+            if (sessionId) {
+                // Per spec, an unknown session ID means the client must re-initialize
+                res.status(404).json({
+                    jsonrpc: "2.0",
+                    error: { code: -32001, message: `Session '${sessionId}' not found or expired. Re-initialize to start a new session.` },
+                    id: null
+                });
+                return;
+            }
+            if (req.method !== "POST") {
+                res.status(400).json({
+                    jsonrpc: "2.0",
+                    error: { code: -32000, message: "Bad Request: Mcp-Session-Id header is required." },
+                    id: null
+                });
+                return;
+            }
+
+            // A POST without a session ID must be an initialize request; parse the body to check
+            const body = await readJsonBody(req);
+            if (!isInitializeRequest(body)) {
+                res.status(400).json({
+                    jsonrpc: "2.0",
+                    error: { code: -32000, message: "Bad Request: No valid session ID provided and request is not an initialize request." },
+                    id: null
+                });
+                return;
+            }
+
+            const sessionConfig = readNocoDbSessionConfig(req);
+            if (!validateNocoDbSessionConfig(sessionConfig, res)) return;
+
+            const eventStore = new InMemoryEventStore(maxEventsPerStream, sessionIdleTimeoutMs);
+            const principal = requestPrincipal(req);
+            const mcpServer = createMcpServer(sessionConfig);
+            const transport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                eventStore,
+                onsessioninitialized: (newSessionId) => {
+                    streamableSessions[newSessionId] = { transport, mcpServer, eventStore, lastActivity: Date.now(), principal };
+                    console.log(`[${new Date().toISOString()}] Streamable HTTP session initialized: ${newSessionId}`);
+                },
+                onsessionclosed: (closedSessionId) => {
+                    closeStreamableSession(closedSessionId, "client DELETE");
+                },
+            });
+
+            try {
+                await mcpServer.connect(transport);
+                await transport.handleRequest(req, res, body);
+            } catch (error) {
+                console.error(`[${new Date().toISOString()}] Error initializing Streamable HTTP session:`, error);
+                if (!res.headersSent) {
+                    res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal server error" }, id: null });
+                }
+            }
+            return;
+        }
+
+        session.lastActivity = Date.now();
+        try {
+            await session.transport.handleRequest(req, res);
+        } catch (error) {
+            console.error(`[${new Date().toISOString()}] Error handling ${req.method} /mcp for session ${sessionId}:`, error);
+            if (!res.headersSent) {
+                res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal server error" }, id: null });
+            } else if (!res.writableEnded) {
+                res.end();
+            }
+            return;
+        }
+
+        // Keep the long-lived GET stream alive through proxies, mirroring the /sse endpoint
+        if (req.method === "GET" && res.headersSent && !res.writableEnded) {
+            const keepAliveInterval = setInterval(() => {
+                if (!res.writableEnded) {
+                    res.write(': keep-alive\n\n');
+                    session!.lastActivity = Date.now();
+                } else {
+                    clearInterval(keepAliveInterval);
+                }
+            }, 25000);
+            res.on("close", () => clearInterval(keepAliveInterval));
+        }
+    });
+
     // Define the port, prioritizing environment variable, default to 3000
     const PORT = parseInt(process.env.PORT || "3000", 10);
 
@@ -105,5 +334,60 @@ export function startHttpServer(mcpServer: McpServer) {
         console.log(`[${startTimestamp}] Listening on port: ${PORT}`);
         console.log(`[${startTimestamp}] SSE endpoint: http://<server-ip>:${PORT}/sse`);
         console.log(`[${startTimestamp}] Message endpoint: POST http://<server-ip>:${PORT}/messages?sessionId=<session_id>`);
+        console.log(`[${startTimestamp}] Streamable HTTP endpoint: http://<server-ip>:${PORT}/mcp`);
+        if (WebhookSecret) {
+            console.log(`[${startTimestamp}] Webhook receiver: POST http://<server-ip>:${PORT}/webhooks/<receiver_id>`);
+        }
     });
 }
+
+// Reads the NocoDB credentials a client supplies when opening a session.
+// Headers are preferred; query parameters exist for clients that cannot set headers (they may end up in access logs).
+function readNocoDbSessionConfig(req: Request): NocoDbSessionConfig {
+    const pick = (header: string, query: string) => {
+        const value = req.header(header) ?? req.query[query];
+        return typeof value === "string" && value.trim() ? value.trim() : undefined;
+    };
+    return {
+        apiToken: pick('x-nocodb-token', 'nocodbToken'),
+        baseId: pick('x-nocodb-base-id', 'nocodbBaseId'),
+        baseName: pick('x-nocodb-base', 'nocodbBase'),
+    };
+}
+
+// Rejects the connection up front if it names a base that is not configured.
+// Missing token/base are only reported per tool call, since tools can still pick a base via 'baseId'.
+function validateNocoDbSessionConfig(sessionConfig: NocoDbSessionConfig, res: Response): boolean {
+    if (sessionConfig.baseName && !NamedBases[sessionConfig.baseName]) {
+        const message = `Unknown base name '${sessionConfig.baseName}'.`;
+        console.error(`[${new Date().toISOString()}] Rejected session: ${message}`);
+        res.status(400).json({ error: "invalid_nocodb_configuration", error_description: message });
+        return false;
+    }
+    return true;
+}
+
+// Reads and parses a JSON request body (no body-parser is installed globally because the SSE transport reads the raw stream itself).
+// Returns undefined for bodies that are too large, invalid or cut off: Express 4 does not catch rejections from async
+// handlers, so a client aborting mid-upload must not reject here.
+async function readJsonBody(req: Request, maxBytes: number = 4 * 1024 * 1024): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    try {
+        for await (const chunk of req) {
+            const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+            size += buffer.length;
+            if (size > maxBytes) return undefined;
+            chunks.push(buffer);
+        }
+    } catch (error: any) {
+        console.error(`[HTTP Server] Failed to read request body: ${error.message}`);
+        return undefined;
+    }
+    const raw = Buffer.concat(chunks).toString("utf8");
+    try {
+        return raw ? JSON.parse(raw) : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -1,26 +1,42 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TransportMode } from './config.js'; // Import config first so stdio mode can redirect logging before anything else writes to stdout
 import { registerNocoDbTools } from "./mcpTools.js";
-import { startHttpServer } from "./server.js";
-import './config.js'; // Import config to ensure environment variables are loaded and client is initialized early
+import { registerNocoDbResources } from "./mcpResources.js";
+import { startHttpServer, startStdioServer } from "./server.js";
+import { NocoDbSessionConfig } from "./nocodbContext.js";
 
-async function main() {
-    console.log("[Main] Initializing NocoDB MCP Server...");
-
-    // Create the main MCP server instance
+// Create a McpServer instance with all NocoDB tools and resources registered, bound to the session's NocoDB credentials
+function createMcpServer(sessionConfig: NocoDbSessionConfig = {}): McpServer {
     const mcpServer = new McpServer({
         name: "nocodb-mcp-server-http", // Updated name slightly for clarity
         version: "1.1.0" // Incremented version due to refactoring and new features
     });
 
     // Register all the NocoDB tools
-    registerNocoDbTools(mcpServer);
+    registerNocoDbTools(mcpServer, sessionConfig);
+    // Expose tables, schemas and records as resources clients can attach as context
+    registerNocoDbResources(mcpServer, sessionConfig);
+
+    return mcpServer;
+}
+
+async function main() {
+    console.log(`[Main] Initializing NocoDB MCP Server (transport: ${TransportMode})...`);
+
+    if (TransportMode === "stdio" || TransportMode === "both") {
+        // Serve the MCP protocol over stdin/stdout (desktop clients, Smithery)
+        // A stdio client has no connection headers, so it always uses the configured defaults
+        await startStdioServer(createMcpServer());
+    }
 
-    // Start the HTTP/SSE server, passing the MCP server instance
-    // The HTTP server will handle incoming connections and route messages to the McpServer
-    startHttpServer(mcpServer);
+    if (TransportMode === "sse" || TransportMode === "both") {
+        // Start the HTTP/SSE server, passing a factory so each connection gets its own McpServer
+        // The HTTP server will handle incoming connections and route messages to the McpServer
+        startHttpServer(createMcpServer);
+    }
 
-    console.log("[Main] NocoDB MCP Server initialization complete. HTTP server is running.");
+    console.log("[Main] NocoDB MCP Server initialization complete.");
 
     // Optional: Add graceful shutdown handling if needed
     process.on('SIGINT', async () => {
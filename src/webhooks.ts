@@ -0,0 +1,108 @@
+import { Request } from "express";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { numberFromEnv } from "./config.js";
+
+// --- Inbound NocoDB Webhooks ---
+// NocoDB hooks can POST to /webhooks/:id on this server. Deliveries are authenticated with a shared
+// secret and kept in a bounded in-memory buffer that agents read with 'nocodb-get-webhook-events'.
+// The receiver is only mounted when MCP_WEBHOOK_SECRET is set.
+
+export const WEBHOOK_SECRET_HEADER = "X-Webhook-Secret";
+
+export const WebhookSecret = process.env.MCP_WEBHOOK_SECRET || undefined;
+// Externally reachable base URL of this server, used to point new hooks at the receiver
+export const WebhookPublicUrl = process.env.MCP_PUBLIC_URL?.replace(/\/+$/, "") || undefined;
+// The ?secret= form ends up in access logs, so it is only accepted when explicitly enabled
+const AllowQuerySecret = process.env.MCP_WEBHOOK_ALLOW_QUERY_SECRET === "true";
+
+export interface WebhookEvent {
+    id: number;          // Monotonic, usable as a cursor
+    receiverId: string;  // The :id path segment the hook posted to
+    receivedAt: string;
+    type?: string;       // e.g. "records.after.insert"
+    tableId?: string;
+    tableName?: string;
+    payload: unknown;
+}
+
+export interface WebhookEventQuery {
+    afterId?: number;
+    receiverId?: string;
+    tableIds?: Set<string>; // Only events for these tables
+    limit?: number;
+}
+
+export class WebhookEventBuffer {
+    private events: WebhookEvent[] = [];
+    private nextId = 1;
+
+    constructor(private maxEvents: number) {
+    }
+
+    push(receiverId: string, payload: unknown): WebhookEvent {
+        // NocoDB v2 payloads look like { type, id, data: { table_id, table_name, rows, previous_rows } }
+        const body = (payload && typeof payload === "object" ? payload : {}) as Record<string, any>;
+        const event: WebhookEvent = {
+            id: this.nextId++,
+            receiverId,
+            receivedAt: new Date().toISOString(),
+            type: typeof body.type === "string" ? body.type : undefined,
+            tableId: body.data?.table_id,
+            tableName: body.data?.table_name,
+            payload,
+        };
+        this.events.push(event);
+        if (this.events.length > this.maxEvents) {
+            this.events.splice(0, this.events.length - this.maxEvents);
+        }
+        return event;
+    }
+
+    list(query: WebhookEventQuery = {}) {
+        const matching = this.events.filter(event =>
+            (query.afterId === undefined || event.id > query.afterId) &&
+            (query.receiverId === undefined || event.receiverId === query.receiverId) &&
+            (query.tableIds === undefined || (event.tableId !== undefined && query.tableIds.has(event.tableId)))
+        );
+        const events = query.limit !== undefined ? matching.slice(0, query.limit) : matching;
+        return {
+            events,
+            hasMore: events.length < matching.length,
+            nextAfterId: events.length > 0 ? events[events.length - 1].id : query.afterId,
+        };
+    }
+}
+
+export const webhookEvents = new WebhookEventBuffer(numberFromEnv("MCP_WEBHOOK_BUFFER_SIZE", 500, 1));
+
+// Accepts the secret in the X-Webhook-Secret header, or (with MCP_WEBHOOK_ALLOW_QUERY_SECRET) a ?secret= query
+// parameter for senders that cannot set headers
+export function verifyWebhookSecret(req: Request): boolean {
+    if (!WebhookSecret) return false;
+    const header = req.header(WEBHOOK_SECRET_HEADER);
+    const query = AllowQuerySecret && typeof req.query.secret === "string" ? req.query.secret : undefined;
+    const provided = header ?? query;
+    if (!provided) return false;
+    // Compare digests so timingSafeEqual always sees equal-length buffers
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(provided), digest(WebhookSecret));
+}
+
+// Where a hook should post to reach this server's receiver, or undefined when it is not reachable
+export function receiverUrlFor(receiverId: string): string | undefined {
+    if (!WebhookSecret || !WebhookPublicUrl) return undefined;
+    return `${WebhookPublicUrl}/webhooks/${encodeURIComponent(receiverId)}`;
+}
+
+// Hides the receiver secret in hook definitions returned to tool callers; NocoDB itself still has it
+export function redactWebhookSecret(hook: any) {
+    const payload = hook?.notification?.payload;
+    if (!payload) return hook;
+    const headers = Array.isArray(payload.headers)
+        ? payload.headers.map((header: any) => String(header?.name).toLowerCase() === WEBHOOK_SECRET_HEADER.toLowerCase()
+            ? { ...header, value: "[redacted]" }
+            : header)
+        : payload.headers;
+    const path = typeof payload.path === "string" ? payload.path.replace(/([?&]secret=)[^&#]*/gi, "$1[redacted]") : payload.path;
+    return { ...hook, notification: { ...hook.notification, payload: { ...payload, headers, path } } };
+}
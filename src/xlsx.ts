@@ -0,0 +1,293 @@
+import zlib from "node:zlib";
+import { MaxXlsxEntryBytes } from "./config.js";
+
+// --- Minimal XLSX Support ---
+// Just enough of the Office Open XML spreadsheet format to read the cell values of one sheet (shared
+// strings, inline strings, booleans and date-formatted numbers) and to write a single-sheet workbook of
+// plain values. Formulas are read as their cached values; styles beyond date detection are ignored.
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    uncompressedSize: number;
+    localHeaderOffset: number;
+}
+
+function readZipEntries(zip: Buffer): Map<string, ZipEntry> {
+    // The end-of-central-directory record sits in the last 64 KB (+22 bytes) of the file
+    let eocd = -1;
+    for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+        if (zip.readUInt32LE(i) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) throw new Error("not a zip archive");
+
+    const entries = new Map<string, ZipEntry>();
+    const count = zip.readUInt16LE(eocd + 10);
+    let offset = zip.readUInt32LE(eocd + 16);
+    for (let i = 0; i < count; i++) {
+        if (zip.readUInt32LE(offset) !== 0x02014b50) throw new Error("corrupt zip central directory");
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const extraLength = zip.readUInt16LE(offset + 30);
+        const commentLength = zip.readUInt16LE(offset + 32);
+        const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+        entries.set(name, {
+            method: zip.readUInt16LE(offset + 10),
+            compressedSize: zip.readUInt32LE(offset + 20),
+            uncompressedSize: zip.readUInt32LE(offset + 24),
+            localHeaderOffset: zip.readUInt32LE(offset + 42),
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+// The declared size can lie, so inflating is capped as well: a small upload must not expand to gigabytes
+function readZipFile(zip: Buffer, name: string, entry: ZipEntry): Buffer {
+    const tooLarge = () => new Error(`'${name}' unpacks to more than ${MaxXlsxEntryBytes} bytes (NOCODB_MAX_XLSX_ENTRY_BYTES)`);
+    if (entry.uncompressedSize > MaxXlsxEntryBytes) throw tooLarge();
+    const header = entry.localHeaderOffset;
+    const start = header + 30 + zip.readUInt16LE(header + 26) + zip.readUInt16LE(header + 28);
+    const data = zip.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) {
+        if (data.length > MaxXlsxEntryBytes) throw tooLarge();
+        return data;
+    }
+    if (entry.method === 8) {
+        try {
+            return zlib.inflateRawSync(data, { maxOutputLength: MaxXlsxEntryBytes });
+        } catch (error: any) {
+            if (error.code === "ERR_BUFFER_TOO_LARGE" || error instanceof RangeError) throw tooLarge();
+            throw error;
+        }
+    }
+    throw new Error(`unsupported zip compression method ${entry.method}`);
+}
+
+export function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+        switch (entity) {
+            case "amp": return "&";
+            case "lt": return "<";
+            case "gt": return ">";
+            case "quot": return "\"";
+            case "apos": return "'";
+            default: return String.fromCodePoint(entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+        }
+    });
+}
+
+const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// Concatenated text of every <t> in a fragment (rich-text runs are split across several)
+const textOf = (xml: string) => [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(m => decodeXmlEntities(m[1])).join("");
+
+// Built-in number formats 14-22 and 45-47 are dates/times; custom ones are if they use date tokens
+function dateStyleIndexes(stylesXml: string | undefined): Set<number> {
+    const dates = new Set<number>();
+    if (!stylesXml) return dates;
+    const dateFormats = new Set<number>([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+    for (const match of stylesXml.matchAll(/<numFmt\s[^>]*>/g)) {
+        const id = Number(attribute(match[0], "numFmtId"));
+        const code = decodeXmlEntities(attribute(match[0], "formatCode") ?? "").replace(/"[^"]*"|\[[^\]]*\]/g, "");
+        if (/[dmyhs]/i.test(code)) dateFormats.add(id);
+    }
+    const cellXfs = stylesXml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? "";
+    [...cellXfs.matchAll(/<xf\s[^>]*?\/?>/g)].forEach((match, index) => {
+        if (dateFormats.has(Number(attribute(match[0], "numFmtId")))) dates.add(index);
+    });
+    return dates;
+}
+
+// Excel serial dates count days from 1899-12-30
+function serialToIso(serial: number): string {
+    const iso = new Date(Math.round((serial - 25569) * 86400 * 1000)).toISOString();
+    return Number.isInteger(serial) ? iso.slice(0, 10) : iso.replace(/\.000Z$/, "Z");
+}
+
+function columnIndex(ref: string): number {
+    let index = 0;
+    for (const char of ref.replace(/[0-9]+$/, "")) index = index * 26 + (char.charCodeAt(0) - 64);
+    return index - 1;
+}
+
+export interface XlsxSheet {
+    name: string;
+    rows: unknown[][];
+}
+
+// Reads one sheet (by name, default the first) as rows of cell values
+export function readXlsx(content: Buffer, sheetName?: string): XlsxSheet & { sheetNames: string[] } {
+    const entries = readZipEntries(content);
+    const file = (name: string) => {
+        const entry = entries.get(name);
+        return entry ? readZipFile(content, name, entry).toString("utf8") : undefined;
+    };
+
+    const workbook = file("xl/workbook.xml");
+    if (!workbook) throw new Error("xl/workbook.xml missing: not an XLSX workbook");
+    const sheets = [...workbook.matchAll(/<sheet\s[^>]*\/?>/g)].map(m => ({
+        name: decodeXmlEntities(attribute(m[0], "name") ?? ""),
+        relationId: attribute(m[0], "r:id"),
+    }));
+    const sheet = sheetName === undefined ? sheets[0] : sheets.find(s => s.name === sheetName);
+    if (!sheet) {
+        throw new Error(`sheet '${sheetName}' not found; sheets: ${sheets.map(s => s.name).join(", ")}`);
+    }
+    const relations = file("xl/_rels/workbook.xml.rels") ?? "";
+    const relation = [...relations.matchAll(/<Relationship\s[^>]*\/?>/g)].find(m => attribute(m[0], "Id") === sheet.relationId);
+    const target = relation ? attribute(relation[0], "Target")! : "worksheets/sheet1.xml";
+    const sheetXml = file(target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+    if (!sheetXml) throw new Error(`worksheet '${target}' missing`);
+
+    const sharedStrings = [...(file("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => textOf(m[1]));
+    const dateStyles = dateStyleIndexes(file("xl/styles.xml"));
+
+    const rows: unknown[][] = [];
+    for (const rowMatch of sheetXml.matchAll(/<row\s([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+        const rowNumber = Number(attribute(` ${rowMatch[1]}`, "r") ?? rows.length + 1);
+        const row: unknown[] = [];
+        for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const tag = ` ${cellMatch[1]}`;
+            const body = cellMatch[2] ?? "";
+            const ref = attribute(tag, "r");
+            const type = attribute(tag, "t");
+            const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+            let value: unknown = null;
+            if (type === "s" && raw !== undefined) value = sharedStrings[Number(raw)] ?? null;
+            else if (type === "inlineStr") value = textOf(body);
+            else if (type === "b" && raw !== undefined) value = raw === "1";
+            else if ((type === "str" || type === "e") && raw !== undefined) value = decodeXmlEntities(raw);
+            else if (raw !== undefined) {
+                const number = Number(raw);
+                if (Number.isNaN(number)) value = decodeXmlEntities(raw);
+                else value = dateStyles.has(Number(attribute(tag, "s"))) ? serialToIso(number) : number;
+            }
+            row[ref ? columnIndex(ref) : row.length] = value;
+        }
+        rows[rowNumber - 1] = Array.from(row, cell => cell ?? null);
+    }
+    return { name: sheet.name, rows: Array.from(rows, row => row ?? []), sheetNames: sheets.map(s => s.name) };
+}
+
+// --- Writing ---
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeZip(files: { name: string; content: Buffer }[]): Buffer {
+    const local: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+    for (const file of files) {
+        const name = Buffer.from(file.name, "utf8");
+        const data = zlib.deflateRawSync(file.content);
+        const crc = crc32(file.content);
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(20, 4);          // Version needed
+        header.writeUInt16LE(0x0800, 6);      // UTF-8 names
+        header.writeUInt16LE(8, 8);           // Deflate
+        header.writeUInt16LE(0x0021, 12);     // 1980-01-01, fixed so output is reproducible
+        header.writeUInt32LE(crc, 14);
+        header.writeUInt32LE(data.length, 18);
+        header.writeUInt32LE(file.content.length, 22);
+        header.writeUInt16LE(name.length, 26);
+        local.push(header, name, data);
+
+        const entry = Buffer.alloc(46);
+        entry.writeUInt32LE(0x02014b50, 0);
+        entry.writeUInt16LE(20, 4);
+        entry.writeUInt16LE(20, 6);
+        entry.writeUInt16LE(0x0800, 8);
+        entry.writeUInt16LE(8, 10);
+        entry.writeUInt16LE(0x0021, 14);
+        entry.writeUInt32LE(crc, 16);
+        entry.writeUInt32LE(data.length, 20);
+        entry.writeUInt32LE(file.content.length, 24);
+        entry.writeUInt16LE(name.length, 28);
+        entry.writeUInt32LE(offset, 42);
+        central.push(entry, name);
+        offset += header.length + name.length + data.length;
+    }
+    const centralSize = central.reduce((size, part) => size + part.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...local, ...central, end]);
+}
+
+// Also drops characters XML 1.0 does not allow
+function escapeXml(text: string): string {
+    return text
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+        .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function columnRef(index: number): string {
+    let ref = "";
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) ref = String.fromCharCode(65 + (n - 1) % 26) + ref;
+    return ref;
+}
+
+function cellXml(value: unknown, ref: string): string {
+    if (value === null || value === undefined || value === "") return "";
+    if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+    if (typeof value === "boolean") return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+// One-sheet workbook; strings are written inline so no shared-string table is needed
+export function writeXlsx(sheet: XlsxSheet): Buffer {
+    // Sheet names are limited to 31 characters and cannot contain []:*?/\
+    const name = sheet.name.replace(/[\[\]:*?/\\]/g, "_").slice(0, 31) || "Sheet1";
+    const rows = sheet.rows.map((row, r) =>
+        `<row r="${r + 1}">${row.map((value, c) => cellXml(value, `${columnRef(c)}${r + 1}`)).join("")}</row>`).join("");
+    const xml = (body: string) => Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`, "utf8");
+    const relationships = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+    const packageRelationships = "http://schemas.openxmlformats.org/package/2006/relationships";
+    return writeZip([
+        {
+            name: "[Content_Types].xml",
+            content: xml(`<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+                `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+                `<Default Extension="xml" ContentType="application/xml"/>` +
+                `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+                `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+                `</Types>`),
+        },
+        {
+            name: "_rels/.rels",
+            content: xml(`<Relationships xmlns="${packageRelationships}">` +
+                `<Relationship Id="rId1" Type="${relationships}/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+        },
+        {
+            name: "xl/workbook.xml",
+            content: xml(`<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${relationships}">` +
+                `<sheets><sheet name="${escapeXml(name)}" sheetId="1" r:id="rId1"/></sheets></workbook>`),
+        },
+        {
+            name: "xl/_rels/workbook.xml.rels",
+            content: xml(`<Relationships xmlns="${packageRelationships}">` +
+                `<Relationship Id="rId1" Type="${relationships}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`),
+        },
+        {
+            name: "xl/worksheets/sheet1.xml",
+            content: xml(`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`),
+        },
+    ]);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { inferColumnType, mapColumns, parseCsv, parseDataset } from "../src/dataImport.js";
+import { NocoDbApiError } from "../src/errors.js";
+
+describe("parseCsv", () => {
+    it("handles quoted delimiters, doubled quotes and line breaks", () => {
+        const text = "Name,Note\r\n\"Smith, J\",\"said \"\"hi\"\"\"\r\nAda,\"two\nlines\"\r\n";
+        expect(parseCsv(text)).toEqual([["Name", "Note"], ["Smith, J", "said \"hi\""], ["Ada", "two\nlines"]]);
+    });
+
+    it("detects ; and tab delimiters from the first line and strips a BOM", () => {
+        expect(parseCsv("\uFEFFa;b\n1;2")).toEqual([["a", "b"], ["1", "2"]]);
+        expect(parseCsv("a\tb\tc,d\n1\t2\t3,4")).toEqual([["a", "b", "c,d"], ["1", "2", "3,4"]]);
+        expect(parseCsv("a;b\n1;2", ",")).toEqual([["a;b"], ["1;2"]]);
+    });
+
+    it("keeps a last line without a trailing newline and empty fields", () => {
+        expect(parseCsv("a,b,c\n1,,3")).toEqual([["a", "b", "c"], ["1", "", "3"]]);
+    });
+});
+
+describe("parseDataset", () => {
+    it("names blank and duplicate headers and skips empty rows", () => {
+        const dataset = parseDataset(Buffer.from("Name,,Name\nAda,1,x\n,,\n"), "csv");
+        expect(dataset.headers).toEqual(["Name", "Column 2", "Name 2"]);
+        expect(dataset.rows).toEqual([{ Name: "Ada", "Column 2": "1", "Name 2": "x" }]);
+    });
+
+    it("reads JSON lines and rejects rows that are not objects", () => {
+        expect(parseDataset(Buffer.from("{\"a\":1}\n\n{\"b\":2}\n"), "jsonl")).toEqual({ headers: ["a", "b"], rows: [{ a: 1 }, { b: 2 }] });
+        expect(() => parseDataset(Buffer.from("[1]"), "json")).toThrow("Row 1 is not a JSON object.");
+        expect(() => parseDataset(Buffer.from("{\"a\":1}\nnope"), "jsonl")).toThrow(/Line 2 is not valid JSON/);
+    });
+});
+
+describe("inferColumnType", () => {
+    it.each([
+        [["1", "-20", 3], "Number"],
+        [["1.5", "2"], "Decimal"],
+        [["TRUE", false], "Checkbox"],
+        [["2025-03-01", ""], "Date"],
+        [["2025-03-01T10:00:00Z", "2025-03-01 10:00"], "DateTime"],
+        [["a@example.com"], "Email"],
+        [["https://nocodb.com"], "URL"],
+        [[{ a: 1 }], "JSON"],
+        [["x".repeat(256)], "LongText"],
+        [["hello", "1"], "SingleLineText"],
+        [[null, ""], "SingleLineText"],
+    ])("infers %j as %s", (values, uidt) => {
+        expect(inferColumnType(values)).toBe(uidt);
+    });
+
+    it("keeps values with a leading zero as text", () => {
+        expect(inferColumnType(["01234", "5678"])).toBe("SingleLineText");
+        expect(inferColumnType(["-007", "1.5"])).toBe("SingleLineText");
+        expect(inferColumnType(["0", "10"])).toBe("Number");
+    });
+});
+
+describe("mapColumns", () => {
+    const columns = ["Id", "Full Name", "Email"];
+
+    it("matches exact titles, then ignoring case, spaces and underscores", () => {
+        expect(mapColumns(["Email", "full_name", "Other"], columns)).toEqual({
+            mapping: { Email: "Email", full_name: "Full Name" },
+            unmapped: ["Other"],
+        });
+    });
+
+    it("applies an explicit map, including null to skip a header", () => {
+        expect(mapColumns(["Mail", "Name"], columns, { Mail: "Email", Name: null })).toEqual({ mapping: { Mail: "Email" }, unmapped: [] });
+        expect(() => mapColumns(["Mail"], columns, { Mail: "Nope" })).toThrow(NocoDbApiError);
+    });
+
+    it("leaves read-only columns unmapped and refuses to map onto them", () => {
+        expect(mapColumns(["Id", "Email"], columns, {}, ["Id"])).toEqual({ mapping: { Email: "Email" }, unmapped: ["Id"] });
+        expect(() => mapColumns(["Key"], columns, { Key: "Id" }, ["Id"])).toThrow(/cannot be imported/);
+    });
+});
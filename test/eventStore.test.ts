@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "../src/eventStore.js";
+
+const message = (id: number): JSONRPCMessage => ({ jsonrpc: "2.0", method: "notifications/message", params: { id } });
+
+// Replays after an event ID and collects what was sent
+async function replay(store: InMemoryEventStore, lastEventId: string) {
+    const sent: [string, JSONRPCMessage][] = [];
+    const streamId = await store.replayEventsAfter(lastEventId, { send: async (eventId, sentMessage) => void sent.push([eventId, sentMessage]) });
+    return { streamId, sent };
+}
+
+describe("InMemoryEventStore", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it("replays only the events after the given ID on the same stream", async () => {
+        const store = new InMemoryEventStore();
+        const first = await store.storeEvent("stream_a", message(1));
+        await store.storeEvent("other", message(2));
+        await store.storeEvent("stream_a", message(3));
+        expect(first).toBe("stream_a_1");
+        expect(await replay(store, first)).toEqual({ streamId: "stream_a", sent: [["stream_a_3", message(3)]] });
+    });
+
+    it("keeps only the newest events per stream", async () => {
+        const store = new InMemoryEventStore(2);
+        for (let i = 1; i <= 4; i++) await store.storeEvent("s", message(i));
+        expect((await replay(store, "s_0")).sent.map(([eventId]) => eventId)).toEqual(["s_3", "s_4"]);
+    });
+
+    it("prunes expired events and still returns the stream of a pruned ID", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        vi.useFakeTimers();
+        const store = new InMemoryEventStore(1000, 60_000);
+        const old = await store.storeEvent("s", message(1));
+        vi.advanceTimersByTime(30_000);
+        await store.storeEvent("s", message(2));
+        vi.advanceTimersByTime(40_000);
+        store.prune();
+        expect((await replay(store, "s_0")).sent.map(([eventId]) => eventId)).toEqual(["s_2"]);
+
+        vi.advanceTimersByTime(60_000);
+        store.prune();
+        expect(await replay(store, old)).toEqual({ streamId: "s", sent: [] });
+        // Sequences are global, so a new event on the pruned stream is not mistaken for a replayed one
+        expect(await store.storeEvent("s", message(3))).toBe("s_3");
+    });
+
+    it("rejects malformed event IDs", async () => {
+        const store = new InMemoryEventStore();
+        await expect(replay(store, "nounderscore")).rejects.toThrow("Malformed event ID 'nounderscore'");
+        await expect(replay(store, "s_x")).rejects.toThrow("Malformed event ID 's_x'");
+    });
+});
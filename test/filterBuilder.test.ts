@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { compileStructuredFilter, StructuredFilter } from "../src/filterBuilder.js";
+import { NocoDbApiError } from "../src/errors.js";
+
+const columns = ["Name", "Status", "Amount", "Due"];
+
+// The validation error thrown for an invalid filter, with its issue list
+function rejection(filter: StructuredFilter, titles = columns) {
+    try {
+        compileStructuredFilter(filter, titles);
+    } catch (error) {
+        expect(error).toBeInstanceOf(NocoDbApiError);
+        expect((error as NocoDbApiError).code).toBe("validation");
+        return (error as NocoDbApiError).details as { issues: { path: string; message: string; suggestion?: string }[] };
+    }
+    throw new Error("expected the filter to be rejected");
+}
+
+describe("compileStructuredFilter", () => {
+    it("compiles conditions and nested groups", () => {
+        expect(compileStructuredFilter({ field: "Name", op: "eq", value: "Ada" }, columns)).toBe("(Name,eq,Ada)");
+        expect(compileStructuredFilter({
+            and: [
+                { field: "Status", op: "in", value: ["Open", "Pending"] },
+                { or: [{ field: "Amount", op: "gt", value: 10 }, { field: "Due", op: "blank" }] },
+            ],
+        }, columns)).toBe("(Status,in,Open,Pending)~and((Amount,gt,10)~or(Due,blank))");
+        expect(compileStructuredFilter({ not: [{ field: "Status", op: "eq", value: "Closed" }] }, columns)).toBe("~not(Status,eq,Closed)");
+        expect(compileStructuredFilter({ field: "Due", op: "isWithin", subOp: "pastNumberOfDays", value: 7 }, columns)).toBe("(Due,isWithin,pastNumberOfDays,7)");
+    });
+
+    it("allows commas and parentheses in the value of a plain condition", () => {
+        expect(compileStructuredFilter({ field: "Name", op: "like", value: "Smith, J (Jr)" }, columns)).toBe("(Name,like,Smith, J (Jr))");
+    });
+
+    it("rejects unknown columns with a suggestion", () => {
+        const { issues } = rejection({ field: "Stauts", op: "eq", value: "Open" });
+        expect(issues).toEqual([{ path: "", message: "Column 'Stauts' does not exist.", suggestion: "Status" }]);
+    });
+
+    it("rejects commas in list values and column names", () => {
+        expect(rejection({ field: "Status", op: "in", value: ["a,b"] }).issues[0].message).toContain("contains a comma");
+        expect(rejection({ field: "A,B", op: "eq", value: 1 }, ["A,B"]).issues[0].message).toContain("contains a comma");
+    });
+
+    it("rejects unbalanced parentheses and logical operator sequences", () => {
+        expect(rejection({ field: "Name", op: "eq", value: "smile :)" }).issues[0].message).toContain("unbalanced parentheses");
+        expect(rejection({ field: "Name", op: "eq", value: "x~or(y" }).issues.map(i => i.message).join(" ")).toContain("logical operator sequence");
+    });
+
+    it("rejects values that do not fit the operator", () => {
+        expect(rejection({ field: "Due", op: "blank", value: "x" }).issues[0].message).toBe("Operator 'blank' takes no value.");
+        expect(rejection({ field: "Amount", op: "btw", value: [1] }).issues[0].message).toContain("exactly two values");
+        expect(rejection({ field: "Status", op: "in", value: [] }).issues[0].message).toContain("at least one value");
+        expect(rejection({ field: "Name", op: "eq" }).issues[0].message).toContain("needs a value");
+        expect(rejection({ field: "Name", op: "eq", value: ["a", "b"] }).issues[0].message).toContain("takes a single value");
+    });
+
+    it("rejects date sub-operators used with the wrong operator", () => {
+        expect(rejection({ field: "Due", op: "isWithin" }).issues[0].message).toContain("needs a subOp");
+        expect(rejection({ field: "Due", op: "like", subOp: "today" }).issues[0].message).toContain("cannot be used with 'like'");
+        expect(rejection({ field: "Due", op: "eq", subOp: "daysAgo" }).issues[0].message).toContain("needs a single value");
+    });
+
+    it("reports every issue with its path", () => {
+        const { issues } = rejection({ and: [{ field: "Name", op: "eq", value: "ok" }, { or: [{ field: "Nope", op: "blank" }, { field: "Amount", op: "gt" }] }] });
+        expect(issues.map(i => i.path)).toEqual(["and[1].or[0]", "and[1].or[1]"]);
+    });
+});
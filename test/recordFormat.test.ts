@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { recordColumns, toCsv } from "../src/recordFormat.js";
+
+describe("toCsv", () => {
+    const records = [
+        { Name: "=HYPERLINK(\"http://evil\")", Amount: -5, Note: "+1 555", Tags: ["a", "b"] },
+        { Name: "@SUM(A1)", Amount: 3, Note: " padded ", Tags: null },
+    ];
+    const columns = recordColumns(records);
+
+    it("quotes cells with separators, quotes, line breaks or edge whitespace", () => {
+        expect(toCsv([{ a: "x,y", b: "say \"hi\"", c: "two\nlines", d: " pad" }], ["a", "b", "c", "d"]))
+            .toBe("a,b,c,d\r\n\"x,y\",\"say \"\"hi\"\"\",\"two\nlines\",\" pad\"\r\n");
+    });
+
+    it("leaves formulas alone unless asked to escape them", () => {
+        expect(toCsv(records, columns).split("\r\n")[1]).toBe("\"=HYPERLINK(\"\"http://evil\"\")\",-5,+1 555,\"[\"\"a\"\",\"\"b\"\"]\"");
+    });
+
+    it("prefixes text cells that a spreadsheet would run as a formula", () => {
+        const lines = toCsv(records, columns, { escapeFormulas: true }).split("\r\n");
+        expect(lines[1]).toBe("\"'=HYPERLINK(\"\"http://evil\"\")\",-5,'+1 555,\"[\"\"a\"\",\"\"b\"\"]\"");
+        expect(lines[2]).toBe("'@SUM(A1),3,\" padded \",");
+    });
+
+    it("escapes tab and carriage-return prefixes too", () => {
+        expect(toCsv([{ a: "\t=1" }, { a: "\r=1" }], ["a"], { escapeFormulas: true })).toBe("a\r\n'\t=1\r\n\"'\r=1\"\r\n");
+    });
+
+    it("escapes formula-like header cells", () => {
+        expect(toCsv([], ["=cmd"], { escapeFormulas: true })).toBe("'=cmd\r\n");
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { validateRecordPayload } from "../src/recordValidation.js";
+
+const columns = [
+    { title: "Id", uidt: "ID", pk: true, ai: true },
+    { title: "Name", uidt: "SingleLineText", rqd: true },
+    { title: "Count", uidt: "Number" },
+    { title: "Price", uidt: "Decimal" },
+    { title: "Done", uidt: "Checkbox" },
+    { title: "Due", uidt: "Date" },
+    { title: "At", uidt: "DateTime" },
+    { title: "Status", uidt: "SingleSelect", colOptions: { options: [{ title: "Open" }, { title: "Closed" }] } },
+    { title: "Tags", uidt: "MultiSelect", colOptions: { options: [{ title: "red" }, { title: "blue" }] } },
+    { title: "Total", uidt: "Formula" },
+    { title: "CreatedAt", uidt: "CreatedTime", system: true },
+];
+
+describe("validateRecordPayload", () => {
+    it("coerces values that fit the column", () => {
+        const { records, issues } = validateRecordPayload("Tasks", columns, {
+            Name: "Write tests", Count: "42", Price: "9.5", Done: "yes", Tags: "red, blue",
+        }, "create");
+        expect(issues).toEqual([]);
+        expect(records).toEqual({ Name: "Write tests", Count: 42, Price: 9.5, Done: true, Tags: "red,blue" });
+    });
+
+    it("reports every issue with its row, column and a suggestion", () => {
+        const { issues } = validateRecordPayload("Tasks", columns, [
+            { Name: "a", Cuont: 1 },
+            { Name: "b", Count: 1.5, Done: "maybe", Status: "Opne" },
+        ], "create");
+        expect(issues.map(({ row, field, code, suggestion }) => ({ row, field, code, suggestion }))).toEqual([
+            { row: 0, field: "Cuont", code: "unknown_column", suggestion: "Count" },
+            { row: 1, field: "Count", code: "invalid_type", suggestion: undefined },
+            { row: 1, field: "Done", code: "invalid_type", suggestion: undefined },
+            { row: 1, field: "Status", code: "invalid_option", suggestion: "Open" },
+        ]);
+    });
+
+    it("rejects computed and system columns, but allows the primary key on update", () => {
+        const create = validateRecordPayload("Tasks", columns, { Id: 1, Name: "a", Total: 3, CreatedAt: "2025-01-01" }, "create");
+        expect(create.issues.map(issue => [issue.field, issue.code])).toEqual([["Id", "read_only"], ["Total", "read_only"], ["CreatedAt", "read_only"]]);
+        expect(validateRecordPayload("Tasks", columns, { Id: 1, Count: 2 }, "update").issues).toEqual([]);
+    });
+
+    it("requires required columns on create only", () => {
+        expect(validateRecordPayload("Tasks", columns, { Count: 1 }, "create").issues.map(issue => issue.code)).toEqual(["required"]);
+        expect(validateRecordPayload("Tasks", columns, { Count: 1 }, "update").issues).toEqual([]);
+    });
+
+    it("keeps dates as written instead of converting them to UTC", () => {
+        const { records, issues } = validateRecordPayload("Tasks", columns, [
+            { Name: "a", Due: "2025-03-01T23:30:00-05:00", At: "2025-03-01T23:30:00+02:00" },
+            { Name: "b", Due: "2025-03-01", At: "2025-03-01 10:00" },
+            { Name: "c", At: "March 1, 2025 23:30 GMT+0200" },
+        ], "create");
+        expect(issues).toEqual([]);
+        expect(records).toEqual([
+            { Name: "a", Due: "2025-03-01", At: "2025-03-01T23:30:00+02:00" },
+            { Name: "b", Due: "2025-03-01", At: "2025-03-01 10:00" },
+            { Name: "c", At: "2025-03-01T23:30:00.000+02:00" },
+        ]);
+        expect(validateRecordPayload("Tasks", columns, { Name: "a", Due: "not a date" }, "create").issues[0].code).toBe("invalid_type");
+    });
+});
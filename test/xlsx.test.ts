@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { readXlsx, writeXlsx } from "../src/xlsx.js";
+
+describe("xlsx", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.resetModules();
+    });
+
+    it("reads back what it writes", () => {
+        const rows = [
+            ["Name", "Amount", "Active", "Note"],
+            ["Ada & Co <ltd>", 12.5, true, null],
+            ["", 0, false, "line\nbreak \"quoted\""],
+        ];
+        const sheet = readXlsx(writeXlsx({ name: "Export: 2025/03", rows }));
+        expect(sheet.name).toBe("Export_ 2025_03");
+        expect(sheet.sheetNames).toEqual(["Export_ 2025_03"]);
+        expect(sheet.rows).toEqual([
+            ["Name", "Amount", "Active", "Note"],
+            ["Ada & Co <ltd>", 12.5, true],
+            [null, 0, false, "line\nbreak \"quoted\""],
+        ]);
+    });
+
+    it("writes objects as JSON text and rejects unknown sheets", () => {
+        const content = writeXlsx({ name: "Sheet1", rows: [[{ a: 1 }]] });
+        expect(readXlsx(content).rows).toEqual([["{\"a\":1}"]]);
+        expect(() => readXlsx(content, "Other")).toThrow("sheet 'Other' not found; sheets: Sheet1");
+    });
+
+    it("caps how far an entry may inflate, even when its declared size is small", async () => {
+        vi.stubEnv("NOCODB_MAX_XLSX_ENTRY_BYTES", "4096");
+        vi.resetModules();
+        const xlsx = await import("../src/xlsx.js");
+        const content = xlsx.writeXlsx({ name: "Big", rows: Array.from({ length: 200 }, (_, i) => [`row ${i}`, "x".repeat(50)]) });
+        expect(() => xlsx.readXlsx(content)).toThrow("'xl/worksheets/sheet1.xml' unpacks to more than 4096 bytes");
+
+        // Rewrite the central directory so the worksheet claims to be tiny; the inflate cap still applies
+        const name = Buffer.from("xl/worksheets/sheet1.xml");
+        const entry = content.lastIndexOf(name) - 46;
+        expect(content.readUInt32LE(entry)).toBe(0x02014b50);
+        content.writeUInt32LE(100, entry + 24);
+        expect(() => xlsx.readXlsx(content)).toThrow("unpacks to more than 4096 bytes");
+    });
+});
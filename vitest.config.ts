@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        include: ["test/**/*.test.ts"],
+        // src/config.ts exits without a NocoDB URL; the unit tests never reach the network
+        env: {
+            NOCODB_URL: "http://nocodb.test",
+            NOCODB_BASE_ID: "test-base",
+            NOCODB_API_TOKEN: "test-token",
+        },
+    },
+});